@@ -0,0 +1,105 @@
+import React from "react";
+import { Package } from "lucide-react";
+import InfoTooltip from "./InfoTooltip";
+import { ProductionLine, BatchPolicy } from "../types";
+
+interface BatchEditorProps {
+  line: ProductionLine;
+  onChange: (line: ProductionLine) => void;
+}
+
+// Starting point when batching is switched on: cartons of 4-6 parts, start anyway after 30 min
+const DEFAULT_BATCH_POLICY: BatchPolicy = { minSize: 4, maxSize: 6, maxWait: 30, sameProduct: false };
+
+const inputClass = "w-16 px-2 py-1 border border-gray-300 rounded focus:outline-none bg-white text-gray-900 disabled:opacity-40";
+
+const BatchEditor: React.FC<BatchEditorProps> = ({ line, onChange }) => {
+  const setBatching = (stageId: string, batching: BatchPolicy | undefined) => {
+    onChange({ ...line, stages: line.stages.map(s => s.id === stageId ? { ...s, batching } : s) });
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-100">
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide flex items-center gap-2 mb-3">
+        <Package className="w-4 h-4 text-red-600" />
+        Batching
+        <InfoTooltip text="A batching machine starts once the minimum number of parts is queued, or when the oldest part has waited the maximum time. A batch takes as long as its slowest part. Batches form in arrival order." />
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="bg-gray-50 text-gray-500 font-medium">
+            <tr>
+              <th className="px-3 py-2">Stage</th>
+              <th className="px-3 py-2 text-center">Batches</th>
+              <th className="px-3 py-2">Min Size</th>
+              <th className="px-3 py-2">Max Size</th>
+              <th className="px-3 py-2">Max Wait (min)</th>
+              <th className="px-3 py-2 text-center">Same Product</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {line.stages.map(stage => {
+              const batching = stage.batching;
+              const policy = batching ?? DEFAULT_BATCH_POLICY;
+              const update = (patch: Partial<BatchPolicy>) => batching && setBatching(stage.id, { ...batching, ...patch });
+              return (
+                <tr key={stage.id}>
+                  <td className="px-3 py-1.5 font-medium text-gray-700">{stage.name}</td>
+                  <td className="px-3 py-1.5 text-center">
+                    <input
+                      type="checkbox"
+                      checked={!!batching}
+                      onChange={(e) => setBatching(stage.id, e.target.checked ? DEFAULT_BATCH_POLICY : undefined)}
+                      className="accent-red-600"
+                    />
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <input
+                      type="number" min="1"
+                      value={policy.minSize}
+                      disabled={!batching}
+                      onChange={(e) => {
+                        const minSize = Math.max(1, parseInt(e.target.value) || 1);
+                        update({ minSize, maxSize: Math.max(minSize, policy.maxSize) });
+                      }}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <input
+                      type="number" min={policy.minSize}
+                      value={policy.maxSize}
+                      disabled={!batching}
+                      onChange={(e) => update({ maxSize: Math.max(policy.minSize, parseInt(e.target.value) || policy.minSize) })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <input
+                      type="number" min="0"
+                      value={policy.maxWait}
+                      disabled={!batching}
+                      onChange={(e) => update({ maxWait: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-3 py-1.5 text-center">
+                    <input
+                      type="checkbox"
+                      checked={policy.sameProduct}
+                      disabled={!batching}
+                      onChange={(e) => update({ sameProduct: e.target.checked })}
+                      className="accent-red-600 disabled:opacity-40"
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BatchEditor;
@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from "react";
+import { CalendarClock } from "lucide-react";
+import InfoTooltip from "./InfoTooltip";
+import { ProductionLine, ShiftCalendar, ArrivalRateProfile } from "../types";
+import { CALENDAR_PRESETS, OFFICE_HOURS_PROFILE, DAY_NAMES, formatShifts, parseShifts } from "../services/calendar";
+
+interface CalendarEditorProps {
+  line: ProductionLine;
+  arrivalProfile?: ArrivalRateProfile;
+  onLineChange: (line: ProductionLine) => void;
+  onProfileChange: (profile: ArrivalRateProfile | undefined) => void;
+}
+
+const numberClass = "w-10 px-1 py-0.5 border border-gray-300 rounded focus:outline-none bg-white text-gray-900 text-center";
+
+// Shift text is parsed on blur so half-typed times aren't thrown away
+const ShiftsInput: React.FC<{ calendar: ShiftCalendar; onChange: (cal: ShiftCalendar) => void }> = ({ calendar, onChange }) => {
+  const [text, setText] = useState(formatShifts(calendar.shifts));
+  useEffect(() => setText(formatShifts(calendar.shifts)), [calendar.shifts]);
+
+  const commit = () => {
+    const shifts = parseShifts(text);
+    if (shifts && shifts.length > 0) onChange({ ...calendar, shifts });
+    else setText(formatShifts(calendar.shifts));
+  };
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      placeholder="06:00-10:00, 10:30-14:30"
+      className="w-56 px-2 py-1 border border-gray-300 rounded focus:outline-none bg-white text-gray-900"
+    />
+  );
+};
+
+const CalendarEditor: React.FC<CalendarEditorProps> = ({ line, arrivalProfile, onLineChange, onProfileChange }) => {
+  const setCalendar = (stageId: string, calendar: ShiftCalendar | undefined) => {
+    onLineChange({ ...line, stages: line.stages.map(s => s.id === stageId ? { ...s, calendar } : s) });
+  };
+
+  const setMultiplier = (key: 'hourly' | 'daily', index: number, raw: string) => {
+    if (!arrivalProfile) return;
+    const value = Math.max(0, parseFloat(raw) || 0);
+    onProfileChange({ ...arrivalProfile, [key]: arrivalProfile[key].map((v, i) => i === index ? value : v) });
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-100">
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide flex items-center gap-2 mb-3">
+        <CalendarClock className="w-4 h-4 text-red-600" />
+        Shifts & Demand
+        <InfoTooltip text="Time 0 is Monday 00:00 and patterns repeat weekly, so set the horizon to a week to see a full cycle. Jobs in process pause when a shift ends." />
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="bg-gray-50 text-gray-500 font-medium">
+            <tr>
+              <th className="px-3 py-2">Stage</th>
+              <th className="px-3 py-2">Calendar</th>
+              <th className="px-3 py-2">Working Days</th>
+              <th className="px-3 py-2">Shifts (incl. breaks as gaps)</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {line.stages.map(stage => {
+              const cal = stage.calendar;
+              const presetIndex = cal ? CALENDAR_PRESETS.findIndex(p => JSON.stringify(p.calendar) === JSON.stringify(cal)) : -1;
+              return (
+                <tr key={stage.id}>
+                  <td className="px-3 py-1.5 font-medium text-gray-700">{stage.name}</td>
+                  <td className="px-3 py-1.5">
+                    <select
+                      value={!cal ? 'always' : presetIndex >= 0 ? String(presetIndex) : 'custom'}
+                      onChange={(e) => {
+                        const v = e.target.value;
+                        if (v === 'always') setCalendar(stage.id, undefined);
+                        else if (v !== 'custom') setCalendar(stage.id, CALENDAR_PRESETS[parseInt(v)].calendar);
+                      }}
+                      className="px-1 py-1 border border-gray-300 rounded focus:outline-none bg-white text-gray-900"
+                    >
+                      <option value="always">Always on</option>
+                      {CALENDAR_PRESETS.map((p, i) => <option key={p.label} value={String(i)}>{p.label}</option>)}
+                      {cal && presetIndex < 0 && <option value="custom">Custom</option>}
+                    </select>
+                  </td>
+                  <td className="px-3 py-1.5">
+                    {cal && (
+                      <div className="flex gap-1">
+                        {DAY_NAMES.map((day, d) => (
+                          <label key={day} className="flex flex-col items-center text-[10px] text-gray-500">
+                            {day.charAt(0)}
+                            <input
+                              type="checkbox"
+                              checked={cal.workingDays[d]}
+                              onChange={(e) => setCalendar(stage.id, { ...cal, workingDays: cal.workingDays.map((w, i) => i === d ? e.target.checked : w) })}
+                              className="accent-red-600"
+                            />
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-3 py-1.5">
+                    {cal && <ShiftsInput calendar={cal} onChange={(c) => setCalendar(stage.id, c)} />}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={!!arrivalProfile}
+            onChange={(e) => onProfileChange(e.target.checked ? OFFICE_HOURS_PROFILE : undefined)}
+            className="accent-red-600"
+          />
+          Time-varying arrival rate
+          <InfoTooltip text="Multipliers of the base arrival rate by hour of day and day of week (non-homogeneous Poisson when arrivals are exponential)." />
+        </label>
+        {arrivalProfile && (
+          <div className="space-y-2 text-[10px] text-gray-500">
+            <div className="flex flex-wrap gap-1">
+              {arrivalProfile.hourly.map((v, h) => (
+                <label key={h} className="flex flex-col items-center">
+                  {String(h).padStart(2, '0')}h
+                  <input type="number" min="0" step="0.1" value={v} onChange={(e) => setMultiplier('hourly', h, e.target.value)} className={numberClass} />
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {arrivalProfile.daily.map((v, d) => (
+                <label key={d} className="flex flex-col items-center">
+                  {DAY_NAMES[d]}
+                  <input type="number" min="0" step="0.1" value={v} onChange={(e) => setMultiplier('daily', d, e.target.value)} className={numberClass} />
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalendarEditor;
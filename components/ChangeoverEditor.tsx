@@ -0,0 +1,85 @@
+import React from "react";
+import { Repeat } from "lucide-react";
+import InfoTooltip from "./InfoTooltip";
+import { ProductionLine, ProductType, ChangeoverMatrix, PRODUCT_TYPES } from "../types";
+
+interface ChangeoverEditorProps {
+  line: ProductionLine;
+  onChange: (line: ProductionLine) => void;
+}
+
+// Starting point when changeovers are switched on: free to rerun the same product, 15 min otherwise
+const DEFAULT_CHANGEOVER_MINUTES = 15;
+const defaultMatrix = (): ChangeoverMatrix =>
+  Object.fromEntries(PRODUCT_TYPES.map(from => [
+    from,
+    Object.fromEntries(PRODUCT_TYPES.map(to => [to, from === to ? 0 : DEFAULT_CHANGEOVER_MINUTES])),
+  ])) as ChangeoverMatrix;
+
+const ChangeoverEditor: React.FC<ChangeoverEditorProps> = ({ line, onChange }) => {
+  const setChangeovers = (stageId: string, changeovers: ChangeoverMatrix | undefined) => {
+    onChange({ ...line, stages: line.stages.map(s => s.id === stageId ? { ...s, changeovers } : s) });
+  };
+
+  const setTime = (stageId: string, matrix: ChangeoverMatrix, from: ProductType, to: ProductType, raw: string) => {
+    const minutes = Math.max(0, parseFloat(raw) || 0);
+    setChangeovers(stageId, { ...matrix, [from]: { ...matrix[from], [to]: minutes } });
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-100">
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide flex items-center gap-2 mb-3">
+        <Repeat className="w-4 h-4 text-red-600" />
+        Changeovers
+        <InfoTooltip text="Setup minutes when a machine switches from the row product to the column product. Each machine remembers its last product. The SST rule picks queued jobs that need the shortest setup." />
+      </h3>
+      <div className="space-y-3">
+        {line.stages.map(stage => {
+          const matrix = stage.changeovers;
+          return (
+            <div key={stage.id} className="text-xs">
+              <label className="flex items-center gap-2 text-gray-700 font-medium">
+                <input
+                  type="checkbox"
+                  checked={!!matrix}
+                  onChange={(e) => setChangeovers(stage.id, e.target.checked ? defaultMatrix() : undefined)}
+                  className="accent-red-600"
+                />
+                {stage.name}
+              </label>
+              {matrix && (
+                <table className="mt-1 ml-5 text-left">
+                  <thead className="text-gray-500">
+                    <tr>
+                      <th className="px-2 py-1 font-medium">From \ To</th>
+                      {PRODUCT_TYPES.map(to => <th key={to} className="px-2 py-1 font-medium text-center">{to}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {PRODUCT_TYPES.map(from => (
+                      <tr key={from}>
+                        <td className="px-2 py-0.5 text-gray-500">{from}</td>
+                        {PRODUCT_TYPES.map(to => (
+                          <td key={to} className="px-2 py-0.5">
+                            <input
+                              type="number" min="0" step="1"
+                              value={matrix[from]?.[to] ?? 0}
+                              onChange={(e) => setTime(stage.id, matrix, from, to, e.target.value)}
+                              className={`w-14 px-1 py-0.5 border border-gray-300 rounded focus:outline-none text-center ${from === to ? 'bg-gray-50 text-gray-500' : 'bg-white text-gray-900'}`}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ChangeoverEditor;
@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useState } from "react";
 import {
   BarChart,
   Bar,
@@ -8,24 +8,39 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
-  LineChart,
-  Line,
-  Cell
+  Cell,
+  ErrorBar
 } from "recharts";
-import { SimulationStats, SensitivityPoint, ScenarioResult } from "../types";
-import { AlertCircle, Clock, DollarSign, CheckCircle, Activity, TrendingUp, Layers, Lightbulb, Star, History, Bolt } from "lucide-react";
+import type { Formatter, Payload } from "recharts/types/component/DefaultTooltipContent";
+import { SimulationStats, SensitivityResult, ScenarioResult, ProductionLine, ConfidenceInterval, QuantileSketch } from "../types";
+import { AlertCircle, Clock, DollarSign, CheckCircle, Activity, Layers, Lightbulb, Star, History, Bolt, Wrench, ShieldCheck, Package, CalendarClock, HardHat, Target } from "lucide-react";
 import InfoTooltip from "./InfoTooltip";
+import WelchChart from "./WelchChart";
+import TimeSeriesChart from "./TimeSeriesChart";
+import TraceExport from "./TraceExport";
+import ScenarioComparison from "./ScenarioComparison";
+import SensitivityChart from "./SensitivityChart";
+import { pointEstimate, TRACKED_KPIS } from "../services/statistics";
+import { sketchHistogram } from "../services/quantileSketch";
+import { getCostStage, stageColor, stageInitial, capacitySummary, dispatchSummary } from "../services/productionLine";
 
 interface DashboardProps {
   stats: SimulationStats | null;
-  sensitivityData: SensitivityPoint[];
+  sensitivity: SensitivityResult | null;
   loading: boolean;
   history: ScenarioResult[];
   replications: number;
   aiFeedback: string | null;
+  line: ProductionLine;
+  warmUp: number;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ stats, sensitivityData, loading, history, replications, aiFeedback }) => {
+const Dashboard: React.FC<DashboardProps> = ({ stats, sensitivity, loading, history, replications, aiFeedback, line, warmUp }) => {
+  // History entries ticked for comparison, in the order they were ticked (the first is the reference)
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  const toggleCompare = (id: number) =>
+    setCompareIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+
   if (loading) {
      return (
         <div className="flex items-center justify-center h-96 bg-white rounded-xl border border-gray-200">
@@ -46,23 +61,71 @@ const Dashboard: React.FC<DashboardProps> = ({ stats, sensitivityData, loading,
     );
   }
 
+  // --- Confidence intervals (only meaningful with several replications) ---
+  // Counted from the results: a precision target or the one-replication feedback run can differ from the setting
+  const runCount = stats.replicationValues.avgDegradationCostPerPart.length;
+  const showCI = runCount > 1;
+  const ciLabel = `${Math.round(stats.confidenceLevel * 100)}% CI`;
+  const ciRange = (ci: ConfidenceInterval, digits: number, scale = 1, prefix = '') =>
+    `[${prefix}${(ci.lower * scale).toFixed(digits)}, ${prefix}${(ci.upper * scale).toFixed(digits)}]`;
+  const ciMargin = (ci: ConfidenceInterval, scale = 1) => (ci.upper - ci.lower) / 2 * scale;
+  const ciSuffix = (ci: ConfidenceInterval, digits: number, scale = 1) =>
+    showCI ? ` ±${ciMargin(ci, scale).toFixed(digits)}` : '';
+
   // --- Logic for AI Analyst ---
   const getRecommendations = () => {
     const recs = [];
-    if (stats.machineUtilization.inspection > 0.9) {
-        recs.push({ text: "Inspection is a severe bottleneck (>90% util). Add stations to reduce degradation costs.", type: 'critical' });
-    } else if (stats.machineUtilization.packaging > 0.95) {
-        recs.push({ text: "Packaging is maxed out (>95%). This limits total throughput. Add a packaging machine.", type: 'warning' });
+    const costStage = getCostStage(line);
+    const otherStages = line.stages.filter(s => s.id !== costStage?.id);
+    const util = (id: string) => stats.machineUtilization[id] ?? 0;
+    const maxedOut = otherStages.find(s => util(s.id) > 0.95);
+
+    if (costStage && util(costStage.id) > 0.9) {
+        recs.push({ text: `${costStage.name} is a severe bottleneck (>90% util). Add capacity to reduce degradation costs.`, type: 'critical' });
+    } else if (maxedOut) {
+        recs.push({ text: `${maxedOut.name} is maxed out (>95%). This limits total throughput. Add a ${maxedOut.name.toLowerCase()} ${maxedOut.kind}.`, type: 'warning' });
     }
     
-    if (stats.waitStats.inspection.p90 > 15) {
-         recs.push({ text: `Tail Risk: 10% of parts wait >${stats.waitStats.inspection.p90.toFixed(1)} min. This drives up average costs significantly.`, type: 'warning' });
+    const costWait = costStage ? stats.waitStats[costStage.id] : undefined;
+    if (costWait && costWait.p90 > 15) {
+         recs.push({ text: `Tail Risk: 10% of parts wait >${costWait.p90.toFixed(1)} min. This drives up average costs significantly.`, type: 'warning' });
     }
 
-    if (stats.machineUtilization.packaging < 0.3 && stats.machineUtilization.moulding < 0.3) {
+    if (otherStages.length > 0 && otherStages.every(s => util(s.id) < 0.3)) {
         recs.push({ text: "System has excess capacity. Consider reducing machine counts to save capital.", type: 'info' });
     }
 
+    const unreliable = line.stages.find(s => s.failures && (stats.reliability[s.id]?.availability ?? 1) < 0.85);
+    if (unreliable) {
+        const availability = stats.reliability[unreliable.id].availability;
+        recs.push({ text: `${unreliable.name} is only ${(availability * 100).toFixed(0)}% available due to breakdowns. Faster repairs or preventive maintenance would add effective capacity.`, type: 'warning' });
+    }
+
+    const setupHeavy = line.stages.find(s => (stats.setupUtilization[s.id] ?? 0) > 0.15);
+    if (setupHeavy) {
+        recs.push({ text: `${setupHeavy.name} spends ${((stats.setupUtilization[setupHeavy.id]) * 100).toFixed(0)}% of its time on changeovers. The SST rule groups same-product jobs and cuts setups.`, type: 'warning' });
+    }
+
+    if (checkingStages.length > 0 && stats.firstPassYield < 0.9) {
+        recs.push({ text: `First-pass yield is only ${(stats.firstPassYield * 100).toFixed(0)}%. Rework loops add load to ${reworkedStages.map(s => s.name).join(', ') || 'the line'} and scrap cost $${stats.scrapCost.toFixed(0)} per run.`, type: 'warning' });
+    }
+
+    const unstaffedStage = line.stages.find(s => (stats.timeBreakdown[s.id]?.unstaffed ?? 0) > 0.1);
+    if (unstaffedStage) {
+        const unstaffed = stats.timeBreakdown[unstaffedStage.id].unstaffed;
+        recs.push({ text: `${unstaffedStage.name} machines sit idle ${(unstaffed * 100).toFixed(0)}% of the time waiting for an operator. More machines won't help there; add operators or cross-train another crew.`, type: 'warning' });
+    }
+
+    if (stats.onTimeRate < 0.8) {
+        recs.push({ text: `Only ${(stats.onTimeRate * 100).toFixed(0)}% of jobs ship on time; average tardiness is ${stats.avgTardiness.toFixed(0)} min. Shorter queues or a due-date-aware rule (EDD) would help.`, type: 'warning' });
+    }
+
+    const blockedStage = line.stages.find(s => (stats.timeBreakdown[s.id]?.blocked ?? 0) > 0.1);
+    if (blockedStage) {
+        const blocked = stats.timeBreakdown[blockedStage.id].blocked;
+        recs.push({ text: `${blockedStage.name} is blocked ${(blocked * 100).toFixed(0)}% of the time waiting for downstream buffer space. A larger buffer or more downstream capacity would free it up.`, type: 'warning' });
+    }
+
     if (recs.length === 0) recs.push({ text: "System appears balanced. Check sensitivity analysis for fine-tuning.", type: 'success' });
     return recs;
   };
@@ -70,36 +133,83 @@ const Dashboard: React.FC<DashboardProps> = ({ stats, sensitivityData, loading,
   const recommendations = getRecommendations();
 
   // --- Histograms ---
-  const createHistogram = (data: number[]) => {
-    if (!data || data.length === 0) return [];
-    const max = Math.ceil(Math.max(...data, 1)); 
-    const min = 0;
-    const binCount = 15;
-    const binWidth = (max - min) / binCount;
-    
-    const bins = Array.from({ length: binCount }, (_, i) => ({
-        range: `${(min + i * binWidth).toFixed(1)} - ${(min + (i + 1) * binWidth).toFixed(1)}`,
-        min: min + i * binWidth,
-        count: 0
-    }));
-
-    data.forEach(v => {
-        const binIndex = Math.min(Math.floor((v - min) / binWidth), binCount - 1);
-        if (binIndex >= 0) bins[binIndex].count++;
-    });
-    return bins;
-  };
+  const createHistogram = (sketch?: QuantileSketch) => sketch ? sketchHistogram(sketch, 15) : [];
+
+  // Wait histograms for every stage except the first (its queue is just order intake)
+  const histogramStages = (line.stages.length > 1 ? line.stages.slice(1) : line.stages).map(stage => ({
+    stage,
+    color: stageColor(line.stages.indexOf(stage)),
+    data: createHistogram(stats.waitTimes[stage.id]),
+    waits: stats.waitStats[stage.id] ?? {
+      avg: 0, p50: 0, p90: 0, p95: 0, p99: 0, max: 0,
+      avgCI: pointEstimate(0), p50CI: pointEstimate(0), p90CI: pointEstimate(0), p95CI: pointEstimate(0), p99CI: pointEstimate(0), maxCI: pointEstimate(0),
+    },
+  }));
+
+  // Breakdown KPIs, only for stages that can fail
+  const failingStages = line.stages.filter(s => s.failures && stats.reliability[s.id]);
 
-  const mouldingData = createHistogram(stats.waitTimes.moulding);
-  const inspectionData = createHistogram(stats.waitTimes.inspection);
-  const packagingData = createHistogram(stats.waitTimes.packaging);
+  // Runs are numbered in the order they were made
+  const runLabel = (run: ScenarioResult) => `Run ${history.indexOf(run) + 1}`;
+  const compared = compareIds.map(id => history.find(h => h.id === id)).filter((h): h is ScenarioResult => !!h);
 
-  // Utilization Data
-  const utilizationData = [
-    { name: 'Moulding', value: (stats.machineUtilization.moulding * 100).toFixed(1), color: '#ef4444' },
-    { name: 'Inspection', value: (stats.machineUtilization.inspection * 100).toFixed(1), color: '#f97316' },
-    { name: 'Packaging', value: (stats.machineUtilization.packaging * 100).toFixed(1), color: '#eab308' },
-  ];
+  // Quality KPIs, only when some stage checks parts
+  const checkingStages = line.stages.filter(s => s.qualityCheck);
+  const reworkedStages = line.stages.filter(s => (stats.reworkLoad[s.id] ?? 0) > 0);
+
+  const latenessData = createHistogram(stats.lateness);
+
+  // Operator KPIs, only when there is a labour pool
+  const operatorGroups = (line.operators ?? []).filter(g => stats.operators[g.id]);
+
+  // Batch KPIs, only for batching stages
+  const batchingStages = line.stages.filter(s => s.batching && stats.batching[s.id]);
+
+  // Utilization Data: how each stage's on-shift machine time was spent
+  const utilizationData = line.stages.map((stage, i) => {
+    const t = stats.timeBreakdown[stage.id];
+    return {
+      name: stage.name,
+      busy: +((t?.busy ?? 0) * 100).toFixed(1),
+      setup: +((t?.setup ?? 0) * 100).toFixed(1),
+      blocked: +((t?.blocked ?? 0) * 100).toFixed(1),
+      starved: +((t?.starved ?? 0) * 100).toFixed(1),
+      forming: +((t?.forming ?? 0) * 100).toFixed(1),
+      unstaffed: +((t?.unstaffed ?? 0) * 100).toFixed(1),
+      down: +((t?.down ?? 0) * 100).toFixed(1),
+      blockedTime: t?.blockedTime ?? 0,
+      changeovers: stats.changeovers[stage.id] ?? 0,
+      busyError: t ? +ciMargin(t.busyCI, 100).toFixed(1) : 0,
+      // Tooltip suffixes, keyed like the bars
+      margins: t ? {
+        busy: ciSuffix(t.busyCI, 1, 100),
+        setup: ciSuffix(t.setupCI, 1, 100),
+        blocked: ciSuffix(t.blockedCI, 1, 100),
+        starved: ciSuffix(t.starvedCI, 1, 100),
+        forming: ciSuffix(t.formingCI, 1, 100),
+        unstaffed: ciSuffix(t.unstaffedCI, 1, 100),
+        down: ciSuffix(t.downCI, 1, 100),
+        blockedTime: ciSuffix(t.blockedTimeCI, 0),
+        changeovers: stats.changeoversCI[stage.id] ? ciSuffix(stats.changeoversCI[stage.id], 0) : '',
+      } as Record<string, string> : {},
+      color: stageColor(i),
+    };
+  });
+  const anySetup = utilizationData.some(d => d.setup > 0);
+  const anyBlocking = utilizationData.some(d => d.blocked > 0);
+  const anyForming = utilizationData.some(d => d.forming > 0);
+  const anyUnstaffed = utilizationData.some(d => d.unstaffed > 0);
+  const anyDown = utilizationData.some(d => d.down > 0);
+
+  // Tooltip text for a utilization segment: its share and interval, plus the machine-minutes or changeovers behind it
+  const utilizationTooltip: Formatter<number, string> = (value, name, item: Payload<number, string>) => {
+    const row: (typeof utilizationData)[number] = item.payload;
+    const share = `${value}%${row.margins[String(item.dataKey)] ?? ''}`;
+    return [name === 'Blocked' ? `${share} (${row.blockedTime.toFixed(0)}${row.margins.blockedTime ?? ''} machine-min)`
+        : name === 'Setup' ? `${share} (${row.changeovers.toFixed(0)}${row.margins.changeovers ?? ''} changeovers)`
+        : name === 'Busy' && showCI ? `${share} (${ciLabel})`
+        : share, name ?? ''];
+  };
 
   return (
     <div className="space-y-6">
@@ -130,9 +240,9 @@ const Dashboard: React.FC<DashboardProps> = ({ stats, sensitivityData, loading,
                  </div>
                  <div className="p-2 bg-purple-50 rounded-lg"><Clock className="w-5 h-5 text-purple-600" /></div>
             </div>
-            {replications > 1 && (
+            {showCI && (
                 <div className="text-[10px] text-gray-400 bg-gray-50 rounded px-2 py-1 self-start">
-                    95% CI: [{stats.leadTimeCI.lower.toFixed(1)}, {stats.leadTimeCI.upper.toFixed(1)}]
+                    {ciLabel}: {ciRange(stats.leadTimeCI, 1)}
                 </div>
             )}
         </div>
@@ -150,9 +260,9 @@ const Dashboard: React.FC<DashboardProps> = ({ stats, sensitivityData, loading,
                  </div>
                  <div className="p-2 bg-red-50 rounded-lg"><DollarSign className="w-5 h-5 text-red-600" /></div>
             </div>
-             {replications > 1 && (
+             {showCI && (
                 <div className="text-[10px] text-gray-400 bg-gray-50 rounded px-2 py-1 self-start">
-                    95% CI: [${stats.costCI.lower.toFixed(2)}, ${stats.costCI.upper.toFixed(2)}]
+                    {ciLabel}: {ciRange(stats.costCI, 2, 1, '$')}
                 </div>
             )}
         </div>
@@ -169,7 +279,13 @@ const Dashboard: React.FC<DashboardProps> = ({ stats, sensitivityData, loading,
                  </div>
                  <div className="p-2 bg-green-50 rounded-lg"><CheckCircle className="w-5 h-5 text-green-600" /></div>
             </div>
-             <p className="text-xs text-gray-500 mt-1">Avg WIP: {stats.avgWip.toFixed(1)} units</p>
+             <p className="text-xs text-gray-500 mt-1">Avg WIP: {stats.avgWip.toFixed(1)}{ciSuffix(stats.wipCI, 1)} units</p>
+             <p className="text-xs text-gray-500">Completed: {stats.completedJobs}{ciSuffix(stats.completedJobsCI, 0)} of {stats.totalJobs}{ciSuffix(stats.totalJobsCI, 0)} arrived</p>
+             {showCI && (
+                <div className="text-[10px] text-gray-400 bg-gray-50 rounded px-2 py-1 mt-1 self-start">
+                    {ciLabel}: {ciRange(stats.throughputCI, 1)}
+                </div>
+            )}
         </div>
 
         {/* Card 4: Service Level */}
@@ -186,66 +302,72 @@ const Dashboard: React.FC<DashboardProps> = ({ stats, sensitivityData, loading,
                  <div className="p-2 bg-blue-50 rounded-lg"><Activity className="w-5 h-5 text-blue-600" /></div>
             </div>
              <p className="text-xs text-gray-500 mt-1">% Insp. wait {'<'} 5 min</p>
+             {showCI && (
+                <div className="text-[10px] text-gray-400 bg-gray-50 rounded px-2 py-1 mt-1 self-start">
+                    {ciLabel}: {ciRange(stats.serviceLevelCI, 1, 100)}
+                </div>
+            )}
         </div>
       </div>
 
+      {/* Precision target outcome */}
+      {stats.precision && (() => {
+        const p = stats.precision;
+        const kpi = TRACKED_KPIS[p.kpi];
+        return (
+          <div className={`flex items-center gap-2 rounded-xl border p-3 text-xs ${p.reached ? 'bg-green-50 border-green-200 text-green-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+              <Target className="w-4 h-4 flex-shrink-0" />
+              <span>
+                  {kpi.label} is within ±{(p.halfWidth * kpi.scale).toFixed(2)} {kpi.unit} ({(p.relativeHalfWidth * 100).toFixed(1)}% of the mean, {ciLabel})
+                  {p.reached ? ` after ${p.replications} replications.` : `; the target was not met within the cap of ${p.replications} replications.`}
+              </span>
+          </div>
+        );
+      })()}
+
       {/* Main Analysis Section */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
          {/* Histograms - Spanning 2 columns */}
          <div className="lg:col-span-2 space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
+                {histogramStages.map(({ stage, color, data, waits }) => (
+                <div key={stage.id} className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
                     <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center justify-between">
-                        <span>Inspection Wait Time</span>
-                        <InfoTooltip text="Critical distribution. Long tail = High risk." />
+                        <span>{stage.name} Wait Time</span>
+                        {stage.degradationRisk && <InfoTooltip text="Critical distribution. Long tail = High risk." />}
                     </h4>
                     <div className="h-40">
                         <ResponsiveContainer width="100%" height="100%">
-                            <BarChart data={inspectionData}>
+                            <BarChart data={data}>
                                 <CartesianGrid strokeDasharray="3 3" vertical={false} />
                                 <XAxis dataKey="min" tickFormatter={(v) => Math.round(v).toString()} fontSize={10} />
                                 <YAxis fontSize={10} />
                                 <Tooltip contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
-                                <Bar dataKey="count" fill="#f97316" radius={[4, 4, 0, 0]} name="Frequency" />
+                                <Bar dataKey="count" fill={color} radius={[4, 4, 0, 0]} name="Frequency" />
                             </BarChart>
                         </ResponsiveContainer>
                     </div>
                     <div className="flex justify-between mt-2 pt-2 border-t border-gray-100 text-xs">
-                         <span className="text-gray-500">Avg: <span className="font-semibold text-gray-900">{stats.waitStats.inspection.avg.toFixed(1)}m</span></span>
-                         <span className="text-gray-500">90th%: <span className="font-semibold text-gray-900">{stats.waitStats.inspection.p90.toFixed(1)}m</span></span>
-                         <span className="text-gray-500">Max: <span className="font-semibold text-gray-900">{stats.waitStats.inspection.max.toFixed(1)}m</span></span>
+                         <span className="text-gray-500">Avg: <span className="font-semibold text-gray-900">{waits.avg.toFixed(1)}m</span><span className="text-gray-400">{ciSuffix(waits.avgCI, 1)}</span></span>
+                         <span className="text-gray-500">90th%: <span className="font-semibold text-gray-900">{waits.p90.toFixed(1)}m</span><span className="text-gray-400">{ciSuffix(waits.p90CI, 1)}</span></span>
+                         <span className="text-gray-500">Max: <span className="font-semibold text-gray-900">{waits.max.toFixed(1)}m</span><span className="text-gray-400">{ciSuffix(waits.maxCI, 1)}</span></span>
                     </div>
-                </div>
-
-                <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
-                    <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center justify-between">
-                        <span>Packaging Wait Time</span>
-                    </h4>
-                    <div className="h-40">
-                        <ResponsiveContainer width="100%" height="100%">
-                            <BarChart data={packagingData}>
-                                <CartesianGrid strokeDasharray="3 3" vertical={false} />
-                                <XAxis dataKey="min" tickFormatter={(v) => Math.round(v).toString()} fontSize={10} />
-                                <YAxis fontSize={10} />
-                                <Tooltip contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
-                                <Bar dataKey="count" fill="#eab308" radius={[4, 4, 0, 0]} name="Frequency" />
-                            </BarChart>
-                        </ResponsiveContainer>
-                    </div>
-                    <div className="flex justify-between mt-2 pt-2 border-t border-gray-100 text-xs">
-                         <span className="text-gray-500">Avg: <span className="font-semibold text-gray-900">{stats.waitStats.packaging.avg.toFixed(1)}m</span></span>
-                         <span className="text-gray-500">90th%: <span className="font-semibold text-gray-900">{stats.waitStats.packaging.p90.toFixed(1)}m</span></span>
-                         <span className="text-gray-500">Max: <span className="font-semibold text-gray-900">{stats.waitStats.packaging.max.toFixed(1)}m</span></span>
+                    <div className="flex justify-between mt-1 text-[10px] text-gray-400">
+                         <span>Median {waits.p50.toFixed(1)}m{ciSuffix(waits.p50CI, 1)}</span>
+                         <span>95th% {waits.p95.toFixed(1)}m{ciSuffix(waits.p95CI, 1)}</span>
+                         <span>99th% {waits.p99.toFixed(1)}m{ciSuffix(waits.p99CI, 1)}</span>
                     </div>
                 </div>
+                ))}
             </div>
             
             {/* Utilization Chart */}
             <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
                  <h3 className="text-sm font-bold text-gray-900 flex items-center gap-2 mb-4">
                      <Activity className="w-4 h-4 text-gray-500" /> Machine Utilization
+                     <InfoTooltip text="Share of on-shift machine time spent processing, on changeovers, blocked (holding a finished job because the next buffer is full), starved (idle, nothing queued), waiting for a batch to fill, waiting for an operator, or down. With several replications, the error bar on the busy segment is its confidence interval, and the tooltip gives the interval of each share." />
                  </h3>
-                 <div className="h-32">
+                 <div style={{ height: Math.max(128, utilizationData.length * 36) }}>
                     <ResponsiveContainer width="100%" height="100%">
                         <BarChart data={utilizationData} layout="vertical" margin={{ top: 0, right: 30, left: 40, bottom: 0 }}>
                             <CartesianGrid strokeDasharray="3 3" horizontal={false} />
@@ -254,17 +376,236 @@ const Dashboard: React.FC<DashboardProps> = ({ stats, sensitivityData, loading,
                             <Tooltip 
                                 cursor={{fill: 'transparent'}}
                                 contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-                                formatter={(value: any) => [`${value}%`, 'Utilization']}
+                                formatter={utilizationTooltip}
                             />
-                            <Bar dataKey="value" radius={[0, 4, 4, 0]} barSize={20}>
+                            <Legend wrapperStyle={{ fontSize: 11 }} />
+                            <Bar dataKey="busy" stackId="time" name="Busy" fill="#ef4444" barSize={20}>
                                 {utilizationData.map((entry, index) => (
                                     <Cell key={`cell-${index}`} fill={entry.color} />
                                 ))}
+                                {showCI && <ErrorBar dataKey="busyError" direction="x" width={4} strokeWidth={1} stroke="#374151" />}
+                            </Bar>
+                            {anySetup && <Bar dataKey="setup" stackId="time" name="Setup" fill="#a855f7" barSize={20} />}
+                            {anyBlocking && <Bar dataKey="blocked" stackId="time" name="Blocked" fill="#f59e0b" barSize={20} />}
+                            {anyDown && <Bar dataKey="down" stackId="time" name="Down" fill="#6b7280" barSize={20} />}
+                            {anyForming && <Bar dataKey="forming" stackId="time" name="Forming Batch" fill="#93c5fd" barSize={20} />}
+                            {anyUnstaffed && <Bar dataKey="unstaffed" stackId="time" name="No Operator" fill="#fda4af" barSize={20} />}
+                            <Bar dataKey="starved" stackId="time" name="Starved" fill="#e5e7eb" radius={[0, 4, 4, 0]} barSize={20} />
+                        </BarChart>
+                    </ResponsiveContainer>
+                 </div>
+            </div>
+
+            {/* Breakdown KPIs */}
+            {failingStages.length > 0 && (
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+                 <h3 className="text-sm font-bold text-gray-900 flex items-center gap-2 mb-4">
+                     <Wrench className="w-4 h-4 text-gray-500" /> Breakdowns
+                     <InfoTooltip text="Availability = share of machine time up. Jobs affected = jobs in process or queued at the stage when a machine went down." />
+                 </h3>
+                 <table className="w-full text-left text-xs">
+                     <thead className="bg-gray-50 text-gray-500 font-medium">
+                         <tr>
+                             <th className="px-3 py-2">Stage</th>
+                             <th className="px-3 py-2 text-right">Availability</th>
+                             <th className="px-3 py-2 text-right">Downtime</th>
+                             <th className="px-3 py-2 text-right">Failures</th>
+                             <th className="px-3 py-2 text-right">Jobs Affected</th>
+                         </tr>
+                     </thead>
+                     <tbody className="divide-y divide-gray-100">
+                         {failingStages.map(stage => {
+                             const r = stats.reliability[stage.id];
+                             return (
+                                 <tr key={stage.id}>
+                                     <td className="px-3 py-2 font-medium text-gray-700">{stage.name}</td>
+                                     <td className={`px-3 py-2 text-right font-semibold ${r.availability < 0.85 ? 'text-red-600' : 'text-gray-900'}`}>{(r.availability * 100).toFixed(1)}%<span className="font-normal text-gray-400">{ciSuffix(r.availabilityCI, 1, 100)}</span></td>
+                                     <td className="px-3 py-2 text-right text-gray-600">{r.downtime.toFixed(0)}{ciSuffix(r.downtimeCI, 0)} min</td>
+                                     <td className="px-3 py-2 text-right text-gray-600">{r.failures.toFixed(1)}{ciSuffix(r.failuresCI, 1)}</td>
+                                     <td className="px-3 py-2 text-right text-gray-600">{r.jobsAffected.toFixed(0)}{ciSuffix(r.jobsAffectedCI, 0)}</td>
+                                 </tr>
+                             );
+                         })}
+                     </tbody>
+                 </table>
+            </div>
+            )}
+
+            {/* Operator KPIs */}
+            {operatorGroups.length > 0 && (
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+                 <h3 className="text-sm font-bold text-gray-900 flex items-center gap-2 mb-4">
+                     <HardHat className="w-4 h-4 text-gray-500" /> Operators
+                     <InfoTooltip text="Utilization = operator time on jobs / on-duty time (overtime included). Overtime = time spent finishing jobs after the crew's shift ended." />
+                 </h3>
+                 <table className="w-full text-left text-xs">
+                     <thead className="bg-gray-50 text-gray-500 font-medium">
+                         <tr>
+                             <th className="px-3 py-2">Crew</th>
+                             <th className="px-3 py-2 text-right">Headcount</th>
+                             <th className="px-3 py-2 text-right">Utilization</th>
+                             <th className="px-3 py-2 text-right">Busy</th>
+                             <th className="px-3 py-2 text-right">Jobs</th>
+                             <th className="px-3 py-2 text-right">Overtime</th>
+                         </tr>
+                     </thead>
+                     <tbody className="divide-y divide-gray-100">
+                         {operatorGroups.map(group => {
+                             const o = stats.operators[group.id];
+                             return (
+                                 <tr key={group.id}>
+                                     <td className="px-3 py-2 font-medium text-gray-700">{group.name}</td>
+                                     <td className="px-3 py-2 text-right text-gray-600">{group.headcount}</td>
+                                     <td className={`px-3 py-2 text-right font-semibold ${o.utilization > 0.9 ? 'text-red-600' : 'text-gray-900'}`}>{(o.utilization * 100).toFixed(1)}%<span className="font-normal text-gray-400">{ciSuffix(o.utilizationCI, 1, 100)}</span></td>
+                                     <td className="px-3 py-2 text-right text-gray-600">{o.busyTime.toFixed(0)}{ciSuffix(o.busyTimeCI, 0)} min</td>
+                                     <td className="px-3 py-2 text-right text-gray-600">{o.jobs.toFixed(0)}{ciSuffix(o.jobsCI, 0)}</td>
+                                     <td className="px-3 py-2 text-right text-gray-600">{o.overtime.toFixed(0)}{ciSuffix(o.overtimeCI, 0)} min</td>
+                                 </tr>
+                             );
+                         })}
+                     </tbody>
+                 </table>
+            </div>
+            )}
+
+            {/* Delivery KPIs */}
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+                 <h3 className="text-sm font-bold text-gray-900 flex items-center gap-2 mb-4">
+                     <CalendarClock className="w-4 h-4 text-gray-500" /> Delivery
+                     <InfoTooltip text="Lateness = completion time - due date (negative = early). Tardiness = lateness of late jobs, 0 for jobs on time. Figures cover completed jobs plus jobs still in the line that are already past their due date at the end, which count as late by the time overdue so far. Max tardiness is the worst job of each replication, averaged." />
+                 </h3>
+                 <div className="grid grid-cols-3 gap-4 mb-4">
+                     <div>
+                         <p className="text-xs text-gray-500">On Time</p>
+                         <p className={`text-xl font-bold ${stats.onTimeRate < 0.8 ? 'text-red-600' : 'text-gray-900'}`}>{(stats.onTimeRate * 100).toFixed(1)}%</p>
+                         {showCI && (
+                             <p className="text-[10px] text-gray-400">{ciLabel}: {ciRange(stats.onTimeCI, 1, 100)}</p>
+                         )}
+                     </div>
+                     <div>
+                         <p className="text-xs text-gray-500">Avg Tardiness</p>
+                         <p className="text-xl font-bold text-gray-900">{stats.avgTardiness.toFixed(1)} <span className="text-sm font-normal text-gray-500">min</span></p>
+                         {showCI && (
+                             <p className="text-[10px] text-gray-400">{ciLabel}: {ciRange(stats.tardinessCI, 1)}</p>
+                         )}
+                     </div>
+                     <div>
+                         <p className="text-xs text-gray-500">Max Tardiness</p>
+                         <p className="text-xl font-bold text-gray-900">{stats.maxTardiness.toFixed(0)} <span className="text-sm font-normal text-gray-500">min</span></p>
+                         {showCI && (
+                             <p className="text-[10px] text-gray-400">{ciLabel}: {ciRange(stats.maxTardinessCI, 0)}</p>
+                         )}
+                     </div>
+                 </div>
+                 <div className="h-40">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={latenessData}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                            <XAxis dataKey="min" tickFormatter={(v) => Math.round(v).toString()} fontSize={10} />
+                            <YAxis fontSize={10} />
+                            <Tooltip contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} labelFormatter={(v) => `Lateness from ${Math.round(Number(v))} min`} />
+                            <Bar dataKey="count" name="Jobs" radius={[4, 4, 0, 0]}>
+                                {latenessData.map((bin, index) => (
+                                    <Cell key={`cell-${index}`} fill={bin.min >= 0 ? '#ef4444' : '#22c55e'} />
+                                ))}
                             </Bar>
                         </BarChart>
                     </ResponsiveContainer>
                  </div>
             </div>
+
+            <WelchChart series={stats.welch} warmUp={warmUp} replications={runCount} />
+
+            <TimeSeriesChart series={stats.timeSeries} line={line} warmUp={warmUp} replications={runCount} confidenceLevel={stats.confidenceLevel} />
+
+            {/* Batch KPIs */}
+            {batchingStages.length > 0 && (
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+                 <h3 className="text-sm font-bold text-gray-900 flex items-center gap-2 mb-4">
+                     <Package className="w-4 h-4 text-gray-500" /> Batching
+                     <InfoTooltip text="Fill = average batch size / maximum size. Forming = machine time spent idle while parts waited for a batch to fill." />
+                 </h3>
+                 <table className="w-full text-left text-xs">
+                     <thead className="bg-gray-50 text-gray-500 font-medium">
+                         <tr>
+                             <th className="px-3 py-2">Stage</th>
+                             <th className="px-3 py-2 text-right">Batches</th>
+                             <th className="px-3 py-2 text-right">Avg Size</th>
+                             <th className="px-3 py-2 text-right">Avg Fill</th>
+                             <th className="px-3 py-2 text-right">Forming</th>
+                         </tr>
+                     </thead>
+                     <tbody className="divide-y divide-gray-100">
+                         {batchingStages.map(stage => {
+                             const b = stats.batching[stage.id];
+                             return (
+                                 <tr key={stage.id}>
+                                     <td className="px-3 py-2 font-medium text-gray-700">{stage.name}</td>
+                                     <td className="px-3 py-2 text-right text-gray-600">{b.batches.toFixed(0)}{ciSuffix(b.batchesCI, 0)}</td>
+                                     <td className="px-3 py-2 text-right text-gray-600">{b.avgSize.toFixed(1)}{ciSuffix(b.avgSizeCI, 1)}</td>
+                                     <td className={`px-3 py-2 text-right font-semibold ${b.avgFill < 0.5 ? 'text-red-600' : 'text-gray-900'}`}>{(b.avgFill * 100).toFixed(0)}%<span className="font-normal text-gray-400">{ciSuffix(b.avgFillCI, 0, 100)}</span></td>
+                                     <td className="px-3 py-2 text-right text-gray-600">{b.formingTime.toFixed(0)}{ciSuffix(b.formingTimeCI, 0)} min</td>
+                                 </tr>
+                             );
+                         })}
+                     </tbody>
+                 </table>
+            </div>
+            )}
+
+            {/* Quality KPIs */}
+            {checkingStages.length > 0 && (
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+                 <h3 className="text-sm font-bold text-gray-900 flex items-center gap-2 mb-4">
+                     <ShieldCheck className="w-4 h-4 text-gray-500" /> Quality
+                     <InfoTooltip text="First-pass yield = share of checked parts that passed every check without rework or scrap. Rework load = share of a stage's processing time spent on parts sent back." />
+                 </h3>
+                 <div className="grid grid-cols-4 gap-4 mb-4">
+                     <div>
+                         <p className="text-xs text-gray-500">First-Pass Yield</p>
+                         <p className={`text-xl font-bold ${stats.firstPassYield < 0.9 ? 'text-red-600' : 'text-gray-900'}`}>{(stats.firstPassYield * 100).toFixed(1)}%</p>
+                         {showCI && <p className="text-[10px] text-gray-400">{ciLabel}: {ciRange(stats.firstPassYieldCI, 1, 100)}</p>}
+                     </div>
+                     <div>
+                         <p className="text-xs text-gray-500">Rework Loops</p>
+                         <p className="text-xl font-bold text-gray-900">{stats.reworkCount.toFixed(0)}</p>
+                         {showCI && <p className="text-[10px] text-gray-400">{ciLabel}: {ciRange(stats.reworkCountCI, 0)}</p>}
+                     </div>
+                     <div>
+                         <p className="text-xs text-gray-500">Scrapped</p>
+                         <p className="text-xl font-bold text-gray-900">{stats.scrapCount.toFixed(0)}</p>
+                         {showCI && <p className="text-[10px] text-gray-400">{ciLabel}: {ciRange(stats.scrapCountCI, 0)}</p>}
+                     </div>
+                     <div>
+                         <p className="text-xs text-gray-500">Scrap Cost</p>
+                         <p className="text-xl font-bold text-gray-900">${stats.scrapCost.toFixed(0)}</p>
+                         {showCI && <p className="text-[10px] text-gray-400">{ciLabel}: {ciRange(stats.scrapCostCI, 0, 1, '$')}</p>}
+                     </div>
+                 </div>
+                 {reworkedStages.length > 0 && (
+                 <table className="w-full text-left text-xs">
+                     <thead className="bg-gray-50 text-gray-500 font-medium">
+                         <tr>
+                             <th className="px-3 py-2">Stage</th>
+                             <th className="px-3 py-2 text-right">Rework Load</th>
+                         </tr>
+                     </thead>
+                     <tbody className="divide-y divide-gray-100">
+                         {reworkedStages.map(stage => (
+                             <tr key={stage.id}>
+                                 <td className="px-3 py-2 font-medium text-gray-700">{stage.name}</td>
+                                 <td className="px-3 py-2 text-right text-gray-600">{(stats.reworkLoad[stage.id] * 100).toFixed(1)}%{ciSuffix(stats.reworkLoadCI[stage.id], 1, 100)}</td>
+                             </tr>
+                         ))}
+                     </tbody>
+                 </table>
+                 )}
+            </div>
+            )}
+
+            {compared.length >= 2 && (
+                <ScenarioComparison scenarios={compared} labels={compared.map(runLabel)} level={stats.confidenceLevel} />
+            )}
          </div>
 
          {/* Sidebar Column */}
@@ -289,44 +630,27 @@ const Dashboard: React.FC<DashboardProps> = ({ stats, sensitivityData, loading,
                 </ul>
             </div>
 
-            {/* Sensitivity Mini Chart */}
-            <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
-                <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-sm font-bold text-gray-900">Sensitivity</h3>
-                    <span className="text-[10px] text-gray-500 bg-gray-100 px-2 py-1 rounded">Cost vs Count</span>
-                </div>
-                 <div className="h-40">
-                    {sensitivityData.length > 0 ? (
-                        <ResponsiveContainer width="100%" height="100%">
-                            <LineChart data={sensitivityData}>
-                                <CartesianGrid strokeDasharray="3 3" vertical={false} />
-                                <XAxis dataKey="xValue" type="number" domain={['auto', 'auto']} fontSize={10} tickCount={5} />
-                                <YAxis fontSize={10} />
-                                <Tooltip contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
-                                <Line type="monotone" dataKey="cost" stroke="#dc2626" strokeWidth={2} dot={{ r: 3 }} />
-                            </LineChart>
-                        </ResponsiveContainer>
-                    ) : (
-                        <div className="h-full flex flex-col items-center justify-center text-gray-400 text-xs">
-                             <TrendingUp className="w-8 h-8 mb-2 opacity-20" />
-                             Click "Analyze Sensitivity"
-                        </div>
-                    )}
-                 </div>
-            </div>
+            <SensitivityChart result={sensitivity} line={line} />
+
+            {stats.trace && <TraceExport trace={stats.trace} />}
 
             {/* Scenario History Mini Table */}
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
                 <div className="p-4 border-b border-gray-100 flex items-center justify-between">
                     <h3 className="text-sm font-bold text-gray-900 flex items-center gap-2">
                         <History className="w-4 h-4 text-gray-500" /> History
+                        <InfoTooltip text="Tick two or more runs to compare them; the first ticked is the reference. The star marks the cheapest run only when it is significantly cheaper than every other run." />
                     </h3>
+                    {compared.length > 0 && (
+                        <button onClick={() => setCompareIds([])} className="text-[10px] text-gray-500 hover:text-gray-700">Clear</button>
+                    )}
                 </div>
                 <div className="max-h-60 overflow-y-auto">
                     <table className="w-full text-left text-xs">
                         <thead className="bg-gray-50 text-gray-500 font-medium">
                             <tr>
-                                <th className="px-3 py-2">Cfg (M-I-P)</th>
+                                <th className="px-2 py-2"></th>
+                                <th className="px-3 py-2">Cfg ({line.stages.map(stageInitial).join('-')})</th>
                                 <th className="px-3 py-2">Cost/Pt</th>
                                 <th className="px-3 py-2 text-right">Job/Hr</th>
                             </tr>
@@ -334,8 +658,19 @@ const Dashboard: React.FC<DashboardProps> = ({ stats, sensitivityData, loading,
                         <tbody className="divide-y divide-gray-100">
                             {history.slice().reverse().map((run) => (
                                 <tr key={run.id} className={`hover:bg-gray-50 transition-colors ${run.id === history[history.length-1].id ? 'bg-blue-50/50' : ''}`}>
+                                    <td className="px-2 py-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={compareIds.includes(run.id)}
+                                            onChange={() => toggleCompare(run.id)}
+                                            title={`Compare ${runLabel(run)}`}
+                                            className="accent-blue-600"
+                                        />
+                                    </td>
                                     <td className="px-3 py-2 font-mono text-gray-600">
-                                        {run.config.mouldingMachines}-{run.config.inspectionStations}-{run.config.packagingMachines}
+                                        <span className="font-sans text-[10px] text-gray-400 mr-1">#{history.indexOf(run) + 1}</span>
+                                        {capacitySummary(run.config.line)}
+                                        <div className="text-[10px] text-gray-400" title="Dispatching rule per stage">{dispatchSummary(run.config.line)}</div>
                                     </td>
                                     <td className="px-3 py-2 font-medium">
                                         <div className="flex items-center gap-1">
@@ -348,7 +683,7 @@ const Dashboard: React.FC<DashboardProps> = ({ stats, sensitivityData, loading,
                             ))}
                             {history.length === 0 && (
                                 <tr>
-                                    <td colSpan={3} className="px-3 py-4 text-center text-gray-400 italic">No runs yet</td>
+                                    <td colSpan={4} className="px-3 py-4 text-center text-gray-400 italic">No runs yet</td>
                                 </tr>
                             )}
                         </tbody>
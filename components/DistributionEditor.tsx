@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from "react";
+import { Distribution, DistributionKind } from "../types";
+import { DISTRIBUTION_KINDS, defaultDistribution, distributionMean, describeDistribution } from "../services/distributions";
+
+interface DistributionEditorProps {
+  value: Distribution;
+  onChange: (dist: Distribution) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "w-14 px-1.5 py-1 border border-gray-300 rounded focus:outline-none bg-white text-gray-900 disabled:opacity-40";
+
+// Empirical values are edited as "value:weight" pairs, e.g. "8:1, 10:2, 12:1".
+// The text is kept locally and only parsed on blur so partial input isn't lost.
+const EmpiricalInput: React.FC<{ dist: Extract<Distribution, { kind: 'empirical' }>; onChange: (d: Distribution) => void; disabled?: boolean }> = ({ dist, onChange, disabled }) => {
+  const format = (d: typeof dist) => d.values.map((v, i) => `${v}:${d.weights[i] ?? 1}`).join(', ');
+  const [text, setText] = useState(format(dist));
+  useEffect(() => setText(format(dist)), [dist]);
+
+  const commit = () => {
+    const pairs = text.split(',').map(p => p.trim()).filter(Boolean).map(p => {
+      const [v, w] = p.split(':');
+      return [parseFloat(v), w === undefined ? 1 : parseFloat(w)];
+    }).filter(([v, w]) => !isNaN(v) && !isNaN(w));
+    if (pairs.length === 0) {
+      setText(format(dist));
+      return;
+    }
+    onChange({ kind: 'empirical', values: pairs.map(p => p[0]), weights: pairs.map(p => p[1]) });
+  };
+
+  return (
+    <input
+      type="text"
+      value={text}
+      disabled={disabled}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      placeholder="value:weight, ..."
+      className="w-36 px-1.5 py-1 border border-gray-300 rounded focus:outline-none bg-white text-gray-900 disabled:opacity-40"
+    />
+  );
+};
+
+const DistributionEditor: React.FC<DistributionEditorProps> = ({ value, onChange, disabled }) => {
+  const info = DISTRIBUTION_KINDS[value.kind];
+  const params = value as unknown as Record<string, number | undefined>;
+
+  const setParam = (key: string, raw: string) => {
+    const parsed = parseFloat(raw);
+    // Blank bounds on the normal mean "no truncation"; everything else needs a number
+    const next = raw.trim() === '' && value.kind === 'normal' && (key === 'min' || key === 'max')
+      ? undefined
+      : isNaN(parsed) ? 0 : parsed;
+    onChange({ ...value, [key]: next } as Distribution);
+  };
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap" title={describeDistribution(value)}>
+      <select
+        value={value.kind}
+        disabled={disabled}
+        onChange={(e) => onChange(defaultDistribution(e.target.value as DistributionKind, distributionMean(value)))}
+        className="px-1 py-1 border border-gray-300 rounded focus:outline-none bg-white text-gray-900 disabled:opacity-40"
+      >
+        {(Object.keys(DISTRIBUTION_KINDS) as DistributionKind[]).map(k => (
+          <option key={k} value={k}>{DISTRIBUTION_KINDS[k].label}</option>
+        ))}
+      </select>
+      {value.kind === 'empirical' ? (
+        <EmpiricalInput dist={value} onChange={onChange} disabled={disabled} />
+      ) : (
+        info.params.map(p => (
+          <input
+            key={p.key}
+            type="number" min="0" step="0.1"
+            value={params[p.key] ?? ''}
+            placeholder={p.label}
+            title={p.label}
+            disabled={disabled}
+            onChange={(e) => setParam(p.key, e.target.value)}
+            className={inputClass}
+          />
+        ))
+      )}
+    </div>
+  );
+};
+
+export default DistributionEditor;
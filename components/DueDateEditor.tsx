@@ -0,0 +1,90 @@
+import React from "react";
+import { CalendarClock } from "lucide-react";
+import InfoTooltip from "./InfoTooltip";
+import { DueDatePolicy, ProductType, PRODUCT_TYPES } from "../types";
+
+interface DueDateEditorProps {
+  policy: DueDatePolicy;
+  onChange: (policy: DueDatePolicy) => void;
+}
+
+// Starting points when switching policy
+const DEFAULT_POLICIES: Record<DueDatePolicy['kind'], DueDatePolicy> = {
+  fixed: { kind: 'fixed', allowance: 240 },
+  twk: { kind: 'twk', factor: 3 },
+  product: {
+    kind: 'product',
+    leadTime: Object.fromEntries(PRODUCT_TYPES.map(p => [p, 240])) as Record<ProductType, number>,
+  },
+};
+
+const POLICY_LABELS: Record<DueDatePolicy['kind'], string> = {
+  fixed: 'Fixed allowance',
+  twk: 'Total work content (TWK)',
+  product: 'Quoted lead time per product',
+};
+
+const inputClass = "px-1 py-0.5 border border-gray-300 rounded focus:outline-none bg-white text-gray-900";
+
+const DueDateEditor: React.FC<DueDateEditorProps> = ({ policy, onChange }) => {
+  const parse = (raw: string) => Math.max(0, parseFloat(raw) || 0);
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-100">
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide flex items-center gap-2 mb-3">
+        <CalendarClock className="w-4 h-4 text-red-600" />
+        Due Dates
+        <InfoTooltip text="Each job is due at its arrival time plus an allowance: a fixed number of minutes, a multiple of its expected total processing time along its routing (TWK), or a quoted lead time per product. Lateness and tardiness are measured against this date." />
+      </h3>
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <select
+          value={policy.kind}
+          onChange={(e) => onChange(DEFAULT_POLICIES[e.target.value as DueDatePolicy['kind']])}
+          className={inputClass}
+        >
+          {(Object.keys(POLICY_LABELS) as DueDatePolicy['kind'][]).map(kind => (
+            <option key={kind} value={kind}>{POLICY_LABELS[kind]}</option>
+          ))}
+        </select>
+        {policy.kind === 'fixed' && (
+          <label className="flex items-center gap-1 text-gray-500">
+            Arrival +
+            <input
+              type="number" min="0" step="10"
+              value={policy.allowance}
+              onChange={(e) => onChange({ ...policy, allowance: parse(e.target.value) })}
+              className={`w-20 ${inputClass}`}
+            />
+            min
+          </label>
+        )}
+        {policy.kind === 'twk' && (
+          <label className="flex items-center gap-1 text-gray-500">
+            Arrival +
+            <input
+              type="number" min="0.1" step="0.5"
+              value={policy.factor}
+              onChange={(e) => onChange({ ...policy, factor: Math.max(0.1, parseFloat(e.target.value) || 0.1) })}
+              className={`w-16 ${inputClass}`}
+            />
+            x work content
+          </label>
+        )}
+        {policy.kind === 'product' && PRODUCT_TYPES.map(p => (
+          <label key={p} className="flex items-center gap-1 text-gray-500">
+            {p}
+            <input
+              type="number" min="0" step="10"
+              value={policy.leadTime[p] ?? 0}
+              onChange={(e) => onChange({ ...policy, leadTime: { ...policy.leadTime, [p]: parse(e.target.value) } })}
+              className={`w-20 ${inputClass}`}
+            />
+            min
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DueDateEditor;
@@ -41,8 +41,9 @@ const IntroModal: React.FC<IntroModalProps> = ({ isOpen, onClose }) => {
               </h4>
               <ul className="text-sm text-gray-600 space-y-2 list-disc pl-4">
                 <li>Adjust the number of machines for each stage.</li>
+                <li>Add stages or change which products visit them under <strong>Stages &amp; Routing</strong>.</li>
                 <li>Set the <strong>Arrival Mean</strong> (how often new orders come in).</li>
-                <li>Click <strong>Run Simulation</strong> to simulate an 8-hour shift.</li>
+                <li>Click <strong>Run Simulation</strong> to simulate an 8-hour shift, or set the <strong>Horizon</strong> to a week and add shift calendars.</li>
               </ul>
             </div>
             
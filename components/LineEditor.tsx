@@ -0,0 +1,151 @@
+import React from "react";
+import { Plus, Trash2, Workflow } from "lucide-react";
+import InfoTooltip from "./InfoTooltip";
+import { ProductionLine, StageDefinition, ProductType, DispatchRule, PRODUCT_TYPES } from "../types";
+import { DISPATCH_RULES } from "../services/dispatching";
+
+interface LineEditorProps {
+  line: ProductionLine;
+  onChange: (line: ProductionLine) => void;
+}
+
+const LineEditor: React.FC<LineEditorProps> = ({ line, onChange }) => {
+  const updateStage = (stageId: string, patch: Partial<StageDefinition>) => {
+    onChange({ ...line, stages: line.stages.map(s => s.id === stageId ? { ...s, ...patch } : s) });
+  };
+
+  // Toggling keeps the routing in line order
+  const toggleRouting = (product: ProductType, stageId: string) => {
+    const current = line.routings[product];
+    const included = current.includes(stageId);
+    const next = line.stages
+      .filter(s => s.id === stageId ? !included : current.includes(s.id))
+      .map(s => s.id);
+    onChange({ ...line, routings: { ...line.routings, [product]: next } });
+  };
+
+  const addStage = () => {
+    let n = line.stages.length + 1;
+    while (line.stages.some(s => s.id === `stage-${n}`)) n++;
+    const stage: StageDefinition = { id: `stage-${n}`, name: `Stage ${n}`, capacity: 1, kind: 'machine' };
+    onChange({ ...line, stages: [...line.stages, stage] });
+  };
+
+  const removeStage = (stageId: string) => {
+    const routings = { ...line.routings };
+    PRODUCT_TYPES.forEach(p => { routings[p] = routings[p].filter(id => id !== stageId); });
+    // Rework sent to the removed stage falls back to repeating the check itself
+    const stages = line.stages
+      .filter(s => s.id !== stageId)
+      .map(s => s.qualityCheck?.reworkStage === stageId ? { ...s, qualityCheck: { ...s.qualityCheck, reworkStage: s.id } } : s);
+    const operators = line.operators?.map(g => ({ ...g, skills: g.skills.filter(id => id !== stageId) }));
+    onChange({ ...line, stages, routings, operators });
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-100">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide flex items-center gap-2">
+          <Workflow className="w-4 h-4 text-red-600" />
+          Stages & Routing
+          <InfoTooltip text="Each product visits the ticked stages in line order. Waiting in front of a 'Degrades' stage incurs cost. The rule picks the next queued job. Buffer limits the queue in front of a stage (blank = unlimited); when it is full, the upstream machine holds its finished job and is blocked." />
+        </h3>
+        <button
+          onClick={addStage}
+          className="flex items-center gap-1 px-3 py-1 text-xs border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          <Plus className="w-3 h-3" /> Add Stage
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="bg-gray-50 text-gray-500 font-medium">
+            <tr>
+              <th className="px-3 py-2">Stage</th>
+              <th className="px-3 py-2">Machines</th>
+              <th className="px-3 py-2">Buffer</th>
+              <th className="px-3 py-2">Rule</th>
+              <th className="px-3 py-2 text-center">Degrades</th>
+              {PRODUCT_TYPES.map(p => <th key={p} className="px-3 py-2 text-center">{p}</th>)}
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {line.stages.map(stage => (
+              <tr key={stage.id}>
+                <td className="px-3 py-1.5">
+                  <input
+                    type="text"
+                    value={stage.name}
+                    onChange={(e) => updateStage(stage.id, { name: e.target.value })}
+                    className="w-28 px-2 py-1 border border-gray-300 rounded focus:outline-none bg-white text-gray-900"
+                  />
+                </td>
+                <td className="px-3 py-1.5">
+                  <input
+                    type="number" min="1" max="10"
+                    value={stage.capacity}
+                    onChange={(e) => updateStage(stage.id, { capacity: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className="w-16 px-2 py-1 border border-gray-300 rounded focus:outline-none bg-white text-gray-900"
+                  />
+                </td>
+                <td className="px-3 py-1.5">
+                  <input
+                    type="number" min="0"
+                    value={stage.bufferCapacity ?? ''}
+                    placeholder="∞"
+                    onChange={(e) => updateStage(stage.id, { bufferCapacity: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-16 px-2 py-1 border border-gray-300 rounded focus:outline-none bg-white text-gray-900"
+                  />
+                </td>
+                <td className="px-3 py-1.5">
+                  <select
+                    value={stage.dispatchRule ?? 'fifo'}
+                    disabled={!!stage.batching}
+                    title={stage.batching ? 'Batches form in arrival order' : undefined}
+                    onChange={(e) => updateStage(stage.id, { dispatchRule: e.target.value as DispatchRule })}
+                    className="px-1 py-1 border border-gray-300 rounded focus:outline-none bg-white text-gray-900 disabled:opacity-40"
+                  >
+                    {(Object.keys(DISPATCH_RULES) as DispatchRule[]).map(rule => (
+                      <option key={rule} value={rule} title={DISPATCH_RULES[rule].description}>{DISPATCH_RULES[rule].label}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-3 py-1.5 text-center">
+                  <input
+                    type="checkbox"
+                    checked={!!stage.degradationRisk}
+                    onChange={(e) => updateStage(stage.id, { degradationRisk: e.target.checked })}
+                    className="accent-red-600"
+                  />
+                </td>
+                {PRODUCT_TYPES.map(p => (
+                  <td key={p} className="px-3 py-1.5 text-center">
+                    <input
+                      type="checkbox"
+                      checked={line.routings[p].includes(stage.id)}
+                      onChange={() => toggleRouting(p, stage.id)}
+                      className="accent-red-600"
+                    />
+                  </td>
+                ))}
+                <td className="px-3 py-1.5 text-right">
+                  <button
+                    onClick={() => removeStage(stage.id)}
+                    disabled={line.stages.length <= 1}
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30 transition-colors"
+                    title="Remove stage"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default LineEditor;
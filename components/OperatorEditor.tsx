@@ -0,0 +1,150 @@
+import React from "react";
+import { HardHat, Plus, Trash2 } from "lucide-react";
+import InfoTooltip from "./InfoTooltip";
+import { ProductionLine, OperatorGroup } from "../types";
+import { CALENDAR_PRESETS } from "../services/calendar";
+
+interface OperatorEditorProps {
+  line: ProductionLine;
+  onChange: (line: ProductionLine) => void;
+}
+
+const inputClass = "px-1 py-0.5 border border-gray-300 rounded focus:outline-none bg-white text-gray-900";
+
+const OperatorEditor: React.FC<OperatorEditorProps> = ({ line, onChange }) => {
+  const groups = line.operators ?? [];
+
+  const setGroups = (operators: OperatorGroup[]) => onChange({ ...line, operators });
+
+  const updateGroup = (groupId: string, patch: Partial<OperatorGroup>) => {
+    setGroups(groups.map(g => g.id === groupId ? { ...g, ...patch } : g));
+  };
+
+  // Skills are kept in line order
+  const toggleSkill = (group: OperatorGroup, stageId: string) => {
+    const included = group.skills.includes(stageId);
+    const skills = line.stages
+      .filter(s => s.id === stageId ? !included : group.skills.includes(s.id))
+      .map(s => s.id);
+    updateGroup(group.id, { skills });
+  };
+
+  const setNeedsOperator = (stageId: string, needsOperator: boolean) => {
+    onChange({ ...line, stages: line.stages.map(s => s.id === stageId ? { ...s, needsOperator: needsOperator || undefined } : s) });
+  };
+
+  // New crews start qualified for every stage that needs an operator
+  const addGroup = () => {
+    let n = groups.length + 1;
+    while (groups.some(g => g.id === `crew-${n}`)) n++;
+    const skills = line.stages.filter(s => s.needsOperator).map(s => s.id);
+    setGroups([...groups, { id: `crew-${n}`, name: `Crew ${n}`, headcount: 2, skills }]);
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-100">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide flex items-center gap-2">
+          <HardHat className="w-4 h-4 text-red-600" />
+          Operators
+          <InfoTooltip text="At a stage that needs an operator, a job only starts when a machine and a qualified operator are both free. The operator stays with the job until it is done, then goes to the qualified stage with the longest queue. Give crews different shifts to staff each shift separately; operators finish their running job before going off duty." />
+        </h3>
+        <button
+          onClick={addGroup}
+          className="flex items-center gap-1 px-3 py-1 text-xs border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          <Plus className="w-3 h-3" /> Add Crew
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="bg-gray-50 text-gray-500 font-medium">
+            <tr>
+              <th className="px-3 py-2">Crew</th>
+              <th className="px-3 py-2">Headcount</th>
+              <th className="px-3 py-2">Shift</th>
+              {line.stages.map(s => <th key={s.id} className="px-3 py-2 text-center">{s.name}</th>)}
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            <tr className="bg-gray-50/50">
+              <td className="px-3 py-1.5 text-gray-500" colSpan={3}>Needs operator</td>
+              {line.stages.map(s => (
+                <td key={s.id} className="px-3 py-1.5 text-center">
+                  <input
+                    type="checkbox"
+                    checked={!!s.needsOperator}
+                    onChange={(e) => setNeedsOperator(s.id, e.target.checked)}
+                    className="accent-red-600"
+                  />
+                </td>
+              ))}
+              <td></td>
+            </tr>
+            {groups.map(group => {
+              const cal = group.calendar;
+              const presetIndex = cal ? CALENDAR_PRESETS.findIndex(p => JSON.stringify(p.calendar) === JSON.stringify(cal)) : -1;
+              return (
+                <tr key={group.id}>
+                  <td className="px-3 py-1.5">
+                    <input
+                      type="text"
+                      value={group.name}
+                      onChange={(e) => updateGroup(group.id, { name: e.target.value })}
+                      className={`w-28 ${inputClass}`}
+                    />
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <input
+                      type="number" min="1"
+                      value={group.headcount}
+                      onChange={(e) => updateGroup(group.id, { headcount: Math.max(1, parseInt(e.target.value) || 1) })}
+                      className={`w-14 ${inputClass}`}
+                    />
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <select
+                      value={!cal ? 'always' : presetIndex >= 0 ? String(presetIndex) : 'custom'}
+                      onChange={(e) => {
+                        const v = e.target.value;
+                        if (v === 'always') updateGroup(group.id, { calendar: undefined });
+                        else if (v !== 'custom') updateGroup(group.id, { calendar: CALENDAR_PRESETS[parseInt(v)].calendar });
+                      }}
+                      className={inputClass}
+                    >
+                      <option value="always">Always on duty</option>
+                      {CALENDAR_PRESETS.map((p, i) => <option key={p.label} value={String(i)}>{p.label}</option>)}
+                      {cal && presetIndex < 0 && <option value="custom">Custom</option>}
+                    </select>
+                  </td>
+                  {line.stages.map(s => (
+                    <td key={s.id} className="px-3 py-1.5 text-center">
+                      <input
+                        type="checkbox"
+                        checked={group.skills.includes(s.id)}
+                        onChange={() => toggleSkill(group, s.id)}
+                        className="accent-red-600"
+                      />
+                    </td>
+                  ))}
+                  <td className="px-3 py-1.5 text-right">
+                    <button
+                      onClick={() => setGroups(groups.filter(g => g.id !== group.id))}
+                      className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                      title="Remove crew"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default OperatorEditor;
@@ -0,0 +1,75 @@
+import React from "react";
+import InfoTooltip from "./InfoTooltip";
+import { TrackedKpi, PrecisionTarget } from "../types";
+import { TRACKED_KPIS, PILOT_REPLICATIONS } from "../services/statistics";
+
+interface PrecisionTargetEditorProps {
+  target?: PrecisionTarget;
+  replications: number;
+  onChange: (target: PrecisionTarget | undefined) => void;
+}
+
+const DEFAULT_TARGET: PrecisionTarget = { kpi: 'avgDegradationCostPerPart', tolerance: 0.05, relative: true, maxReplications: 100 };
+
+const inputClass = "px-1 py-0.5 border border-gray-300 rounded focus:outline-none bg-white text-gray-900";
+
+const PrecisionTargetEditor: React.FC<PrecisionTargetEditorProps> = ({ target, replications, onChange }) => {
+  const minCap = Math.max(PILOT_REPLICATIONS, replications);
+  // Tolerances are edited in display units: percent of the mean, or the KPI's own unit
+  const scale = target ? (target.relative ? 100 : TRACKED_KPIS[target.kpi].scale) : 1;
+
+  return (
+    <div className="space-y-1 text-[10px] text-gray-500">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={!!target}
+          onChange={(e) => onChange(e.target.checked ? { ...DEFAULT_TARGET, maxReplications: Math.max(minCap, DEFAULT_TARGET.maxReplications) } : undefined)}
+          className="accent-blue-600"
+        />
+        Run until precise
+        <InfoTooltip text={`Starts with the replications above (at least ${PILOT_REPLICATIONS}) and keeps adding one at a time until the confidence interval half-width of the chosen KPI is within the tolerance, or the cap is reached.`} />
+      </label>
+      {target && (
+        <div className="flex flex-wrap items-center gap-1">
+          <select
+            value={target.kpi}
+            onChange={(e) => onChange({ ...target, kpi: e.target.value as TrackedKpi })}
+            className={inputClass}
+          >
+            {(Object.keys(TRACKED_KPIS) as TrackedKpi[]).map(kpi => (
+              <option key={kpi} value={kpi}>{TRACKED_KPIS[kpi].label}</option>
+            ))}
+          </select>
+          ±
+          <input
+            type="number" min="0" step="any"
+            value={+(target.tolerance * scale).toPrecision(6)}
+            onChange={(e) => onChange({ ...target, tolerance: Math.max(0, parseFloat(e.target.value) || 0) / scale })}
+            className={`w-14 ${inputClass}`}
+          />
+          <select
+            value={target.relative ? 'relative' : 'absolute'}
+            onChange={(e) => onChange(e.target.value === 'relative'
+              ? { ...target, relative: true, tolerance: DEFAULT_TARGET.tolerance }
+              : { ...target, relative: false, tolerance: 1 / TRACKED_KPIS[target.kpi].scale })}
+            className={inputClass}
+          >
+            <option value="relative">% of mean</option>
+            <option value="absolute">{TRACKED_KPIS[target.kpi].unit}</option>
+          </select>
+          <span className="ml-1">max</span>
+          <input
+            type="number" min={minCap} step="1"
+            value={target.maxReplications}
+            onChange={(e) => onChange({ ...target, maxReplications: Math.max(minCap, parseInt(e.target.value) || minCap) })}
+            className={`w-14 ${inputClass}`}
+          />
+          runs
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrecisionTargetEditor;
@@ -1,93 +1,275 @@
-import React from "react";
-import { ArrowRight, Box, CheckCircle, Truck, Layers } from "lucide-react";
+import React, { useState, useRef, useLayoutEffect } from "react";
+import { ArrowRight, Truck, Layers, Wrench, Film } from "lucide-react";
 import InfoTooltip from "./InfoTooltip";
+import ReplayControls, { useReplay } from "./ReplayControls";
+import { SimulationConfig, SimulationStats, MachineState, ProductType, PRODUCT_TYPES } from "../types";
+import { stageInitial, productColor } from "../services/productionLine";
 
 interface ProcessDiagramProps {
-  mouldingMachines: number;
-  inspectionStations: number;
-  packagingMachines: number;
+  config: SimulationConfig;
+  stats?: SimulationStats | null; // Latest results, used to flag machines that were often down
 }
 
-const ProcessDiagram: React.FC<ProcessDiagramProps> = ({
-  mouldingMachines,
-  inspectionStations,
-  packagingMachines,
-}) => {
+// Machines below this availability are highlighted as "down a lot"
+const LOW_AVAILABILITY = 0.85;
+
+// Queued jobs drawn per stage during replay; the rest are counted
+const MAX_QUEUE_MARKERS = 24;
+
+// Jobs drawn travelling at once; at high speeds the rest just appear at their stage
+const MAX_TRANSIT_TOKENS = 60;
+
+// Where tokens leave and enter a box, relative to the diagram row
+interface Anchor {
+  left: number;
+  right: number;
+  y: number;
+}
+
+// A job moving between two anchors (0 = order intake, stages from 1, then shipping)
+interface TransitToken {
+  jobId: number;
+  product: ProductType;
+  from: number;
+  to: number;
+  start: number;
+}
+
+// Replay look of machines that aren't working on a job (busy ones take the job's product color)
+const IDLE_STATE_CLASSES: Partial<Record<MachineState, string>> = {
+  starved: 'bg-gray-200 text-gray-500',
+  forming: 'bg-blue-200 text-blue-800',
+  unstaffed: 'bg-rose-300 text-rose-900',
+  down: 'bg-gray-500',
+  offShift: 'bg-gray-300 text-gray-500',
+};
+
+const STATE_LABELS: Record<MachineState, string> = {
+  busy: 'Busy',
+  blocked: 'Blocked',
+  starved: 'Idle',
+  forming: 'Forming batch',
+  unstaffed: 'No operator',
+  down: 'Down',
+  offShift: 'Off shift',
+};
+
+const ProcessDiagram: React.FC<ProcessDiagramProps> = ({ config, stats }) => {
+  const line = config.line;
+  const [replaying, setReplaying] = useState(false);
+  const replay = useReplay(config, replaying);
+  const live = replaying ? replay.snapshot : null;
+  const productOf = new Map<number, ProductType>(live?.jobs.map(j => [j.id, j.productType]) ?? []);
+
+  // Boxes are measured after layout so tokens can travel along the arrows between them
+  const rowRef = useRef<HTMLDivElement>(null);
+  const anchorRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [anchors, setAnchors] = useState<Anchor[]>([]);
+  const anchorCount = line.stages.length + 2;
+  useLayoutEffect(() => {
+    const row = rowRef.current;
+    if (!replaying || !row) return;
+    const measure = () => {
+      const origin = row.getBoundingClientRect();
+      setAnchors(anchorRefs.current.slice(0, anchorCount).map(el => {
+        const rect = el!.getBoundingClientRect();
+        return { left: rect.left - origin.left, right: rect.right - origin.left, y: rect.top - origin.top + rect.height / 2 };
+      }));
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(row);
+    anchorRefs.current.slice(0, anchorCount).forEach(el => el && observer.observe(el));
+    return () => observer.disconnect();
+  }, [replaying, anchorCount]);
+
+  // Jobs that joined a queue or shipped within the last `transit` minutes are still on their way
+  const anchorOf = (stageId: string) => line.stages.findIndex(s => s.id === stageId) + 1;
+  const tokens: TransitToken[] = live && anchors.length === anchorCount ? [
+    ...live.jobs.filter(j => live.time - j.enteredAt < replay.transit).map(j => ({
+      jobId: j.id, product: j.productType, from: j.fromStageId ? anchorOf(j.fromStageId) : 0, to: anchorOf(j.stageId), start: j.enteredAt,
+    })),
+    ...live.shipped.map(j => ({ jobId: j.id, product: j.productType, from: anchorOf(j.stageId), to: anchorCount - 1, start: j.time })),
+  ].slice(0, MAX_TRANSIT_TOKENS) : [];
+  const inTransit = new Set(tokens.map(t => t.jobId));
+
+  // Forwards from the right edge to the next box's left edge; rework loops run the other way
+  const tokenPosition = (token: TransitToken) => {
+    const from = anchors[token.from];
+    const to = anchors[token.to];
+    const forward = token.to > token.from;
+    const x0 = forward ? from.right : from.left;
+    const x1 = forward ? to.left : to.right;
+    const progress = Math.min(1, (live!.time - token.start) / replay.transit);
+    return { left: x0 + (x1 - x0) * progress, top: from.y + (to.y - from.y) * progress };
+  };
+
+  // Products that skip a stage are listed under it so alternative routings stay visible
+  const visitorsOf = (stageId: string) => PRODUCT_TYPES.filter(p => line.routings[p]?.includes(stageId));
+
   return (
     <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 mb-6 overflow-x-auto">
-      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
-        <Layers className="h-5 w-5 text-red-500"/> 
-        Production Line Configuration
-        <InfoTooltip text="Visual representation of the shop floor. Orders flow Left to Right. Wait time accumulates between stages." />
-      </h3>
-      
-      <div className="flex items-center justify-between min-w-[800px] gap-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Layers className="h-5 w-5 text-red-500"/>
+          Production Line Configuration
+          <InfoTooltip text="Visual representation of the shop floor. Orders flow Left to Right. Wait time accumulates between stages. Replay runs one replication: jobs travel between stages in their product's color, and each stage shows its queue length and machine states as they unfold." />
+        </h3>
+        <button
+          onClick={() => setReplaying(!replaying)}
+          className={`flex items-center gap-1 px-3 py-1 text-xs border rounded-lg transition-colors ${replaying ? 'border-red-300 bg-red-50 text-red-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+        >
+          <Film className="w-3 h-3" /> {replaying ? 'Close Replay' : 'Replay'}
+        </button>
+      </div>
+
+      {replaying && <ReplayControls replay={replay} duration={config.duration} />}
+
+      <div ref={rowRef} className="relative flex items-center justify-between min-w-[800px] gap-4">
         {/* Input */}
         <div className="flex flex-col items-center">
-            <div className="w-24 h-12 bg-red-100 border-2 border-red-200 rounded-l-3xl flex items-center justify-center relative">
+            <div ref={el => { anchorRefs.current[0] = el; }} className="w-24 h-12 bg-red-100 border-2 border-red-200 rounded-l-3xl flex items-center justify-center relative">
                 <span className="text-xs font-bold text-red-800 uppercase">Order</span>
             </div>
         </div>
 
-        <ArrowRight className="text-gray-300 w-8 h-8 flex-shrink-0" />
+        {line.stages.map((stage, stageIndex) => {
+            const visitors = visitorsOf(stage.id);
+            const availability = stats?.reliability?.[stage.id]?.machineAvailability;
+            const liveStage = live?.stages[stageIndex];
+            const settled = liveStage?.queue.filter(id => !inTransit.has(id)) ?? [];
+            return (
+                <React.Fragment key={stage.id}>
+                    {/* Arrow, with Wait Time Label in front of degradation-sensitive stages */}
+                    {stage.degradationRisk ? (
+                        <div className="flex flex-col items-center flex-shrink-0 w-24">
+                            <ArrowRight className="text-gray-400 w-8 h-8" />
+                            <div className="mt-1 text-xs font-bold text-red-600 bg-red-50 px-2 py-1 rounded">Wait Time</div>
+                            <div className="text-[10px] text-gray-400 text-center leading-tight mt-1">(Degradation Risk)</div>
+                            {stage.bufferCapacity !== undefined && <div className="text-[10px] text-amber-600 text-center leading-tight">Buffer {stage.bufferCapacity}</div>}
+                        </div>
+                    ) : stage.bufferCapacity !== undefined ? (
+                        <div className="flex flex-col items-center flex-shrink-0">
+                            <ArrowRight className="text-gray-300 w-8 h-8" />
+                            <div className="text-[10px] text-amber-600 text-center leading-tight">Buffer {stage.bufferCapacity}</div>
+                        </div>
+                    ) : (
+                        <ArrowRight className="text-gray-300 w-8 h-8 flex-shrink-0" />
+                    )}
 
-        {/* Moulding */}
-        <div className="flex-1 border-2 border-dashed border-red-200 rounded-xl p-4 bg-red-50/30">
-            <div className="text-xs font-bold text-red-800 uppercase mb-2 text-center tracking-wider">Moulding</div>
-            <div className="flex flex-wrap justify-center gap-2">
-                {Array.from({ length: mouldingMachines }).map((_, i) => (
-                    <div key={i} className="w-8 h-8 bg-red-600 rounded shadow-sm flex items-center justify-center text-white text-xs font-mono" title="Moulding Machine">
-                        M{i+1}
+                    <div ref={el => { anchorRefs.current[stageIndex + 1] = el; }} className="flex-1 border-2 border-dashed border-red-200 rounded-xl p-4 bg-red-50/30">
+                        <div className="text-xs font-bold text-red-800 uppercase mb-2 text-center tracking-wider flex items-center justify-center gap-1">
+                            {stage.name}
+                            {stage.failures && <Wrench className="w-3 h-3 text-gray-500" title="Breakdowns enabled" />}
+                        </div>
+                        {liveStage && (
+                            <div className="text-[10px] text-gray-500 text-center mb-1">
+                                Queue <span className={`font-semibold ${liveStage.queue.length > 0 ? 'text-gray-900' : 'text-gray-400'}`}>{liveStage.queue.length}</span>
+                            </div>
+                        )}
+                        {liveStage && (
+                            <div className="flex flex-wrap justify-center items-center gap-0.5 min-h-[12px] mb-2" title={`${liveStage.queue.length} queued`}>
+                                {settled.slice(0, MAX_QUEUE_MARKERS).map(id => (
+                                    <div key={id} className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: productColor(productOf.get(id)!) }} />
+                                ))}
+                                {settled.length > MAX_QUEUE_MARKERS && (
+                                    <span className="text-[10px] text-gray-500 ml-1">+{settled.length - MAX_QUEUE_MARKERS}</span>
+                                )}
+                            </div>
+                        )}
+                        <div className="flex flex-wrap justify-center gap-2">
+                            {Array.from({ length: stage.capacity }).map((_, i) => {
+                                const liveMachine = liveStage?.machines[i];
+                                if (liveMachine) {
+                                    const working = liveMachine.state === 'busy' || liveMachine.state === 'blocked';
+                                    return (
+                                        <div
+                                            key={i}
+                                            className={`w-8 h-8 shadow-sm flex items-center justify-center text-white text-xs font-mono transition-colors duration-300 ${stage.kind === 'station' ? 'rounded-full' : 'rounded'} ${working ? '' : IDLE_STATE_CLASSES[liveMachine.state]} ${liveMachine.state === 'blocked' ? 'ring-2 ring-amber-400' : ''}`}
+                                            style={working && liveMachine.product ? { backgroundColor: productColor(liveMachine.product) } : undefined}
+                                            title={`${stage.name} ${i + 1}: ${STATE_LABELS[liveMachine.state]}${liveMachine.jobIds.length > 0 ? ` (job ${liveMachine.jobIds.join(', ')})` : ''}`}
+                                        >
+                                            {liveMachine.jobIds.length > 1 ? `x${liveMachine.jobIds.length}` : `${stageInitial(stage)}${i + 1}`}
+                                        </div>
+                                    );
+                                }
+                                const machineAvailability = stage.failures ? availability?.[i] : undefined;
+                                const oftenDown = machineAvailability !== undefined && machineAvailability < LOW_AVAILABILITY;
+                                return (
+                                    <div
+                                        key={i}
+                                        className={`w-8 h-8 shadow-sm flex items-center justify-center text-white text-xs font-mono ${stage.kind === 'station' ? 'rounded-full' : 'rounded'} ${oftenDown ? 'bg-gray-500 ring-2 ring-amber-400' : stage.kind === 'station' ? 'bg-red-500' : 'bg-red-600'}`}
+                                        title={`${stage.name} ${stage.kind === 'station' ? 'Station' : 'Machine'}${machineAvailability !== undefined ? ` (available ${(machineAvailability * 100).toFixed(0)}%)` : ''}`}
+                                    >
+                                        {stageInitial(stage)}{i+1}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        {stage.batching && (
+                            <div className="text-[10px] text-gray-500 text-center mt-2">
+                                Batches of {stage.batching.minSize === stage.batching.maxSize ? stage.batching.maxSize : `${stage.batching.minSize}-${stage.batching.maxSize}`}
+                            </div>
+                        )}
+                        {stage.needsOperator && (
+                            <div className="text-[10px] text-gray-500 text-center mt-2">
+                                Operator: {(line.operators ?? []).filter(g => g.skills.includes(stage.id)).map(g => g.name).join(', ') || 'none qualified'}
+                            </div>
+                        )}
+                        {stage.qualityCheck && (
+                            <div className="text-[10px] text-amber-700 text-center mt-2">
+                                Check: rework at {line.stages.find(s => s.id === stage.qualityCheck!.reworkStage)?.name ?? stage.name}
+                            </div>
+                        )}
+                        {visitors.length < PRODUCT_TYPES.length && (
+                            <div className="text-[10px] text-gray-500 text-center mt-2">
+                                {visitors.length > 0 ? `Only ${visitors.join(', ')}` : 'Not routed'}
+                            </div>
+                        )}
                     </div>
-                ))}
-            </div>
-        </div>
-
-        {/* Arrow with Wait Time Label */}
-        <div className="flex flex-col items-center flex-shrink-0 w-24">
-            <ArrowRight className="text-gray-400 w-8 h-8" />
-            <div className="mt-1 text-xs font-bold text-red-600 bg-red-50 px-2 py-1 rounded">Wait Time</div>
-            <div className="text-[10px] text-gray-400 text-center leading-tight mt-1">(Degradation Risk)</div>
-        </div>
-
-        {/* Inspection */}
-        <div className="flex-1 border-2 border-dashed border-red-200 rounded-xl p-4 bg-red-50/30">
-            <div className="text-xs font-bold text-red-800 uppercase mb-2 text-center tracking-wider">Inspection</div>
-             <div className="flex flex-wrap justify-center gap-2">
-                {Array.from({ length: inspectionStations }).map((_, i) => (
-                    <div key={i} className="w-8 h-8 bg-red-500 rounded-full shadow-sm flex items-center justify-center text-white text-xs font-mono" title="Inspection Station">
-                        I{i+1}
-                    </div>
-                ))}
-            </div>
-        </div>
-
-        <ArrowRight className="text-gray-300 w-8 h-8 flex-shrink-0" />
-
-        {/* Packaging */}
-        <div className="flex-1 border-2 border-dashed border-red-200 rounded-xl p-4 bg-red-50/30">
-            <div className="text-xs font-bold text-red-800 uppercase mb-2 text-center tracking-wider">Packaging</div>
-             <div className="flex flex-wrap justify-center gap-2">
-                {Array.from({ length: packagingMachines }).map((_, i) => (
-                    <div key={i} className="w-8 h-8 bg-red-600 rounded shadow-sm flex items-center justify-center text-white text-xs font-mono" title="Packaging Machine">
-                        P{i+1}
-                    </div>
-                ))}
-            </div>
-        </div>
+                </React.Fragment>
+            );
+        })}
 
         <ArrowRight className="text-gray-300 w-8 h-8 flex-shrink-0" />
 
         {/* Shipping */}
         <div className="flex flex-col items-center">
-            <div className="w-24 h-12 bg-gray-100 border-2 border-gray-200 rounded-r-3xl flex items-center justify-center">
+            <div ref={el => { anchorRefs.current[anchorCount - 1] = el; }} className="w-24 h-12 bg-gray-100 border-2 border-gray-200 rounded-r-3xl flex items-center justify-center">
                 <span className="text-xs font-bold text-gray-600 uppercase flex items-center gap-1">
                     Shipping <Truck className="w-3 h-3"/>
                 </span>
             </div>
+            {live && <div className="text-[10px] text-gray-500 mt-1">{live.completedJobs} shipped</div>}
         </div>
+
+        {/* Jobs in transit, drawn over the arrows */}
+        {tokens.map(token => (
+            <div
+                key={`${token.jobId}-${token.start}`}
+                className="absolute w-2.5 h-2.5 rounded-full shadow pointer-events-none"
+                style={{ ...tokenPosition(token), transform: 'translate(-50%, -50%)', backgroundColor: productColor(token.product) }}
+            />
+        ))}
       </div>
 
+      {live ? (
+      <div className="mt-4 flex flex-wrap gap-4 text-xs text-gray-500 justify-center">
+         {PRODUCT_TYPES.map(p => (
+            <div key={p} className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: productColor(p) }}></div> {p}
+            </div>
+         ))}
+         <div className="flex items-center gap-2">
+            <div className="w-3 h-3 bg-gray-400 ring-2 ring-amber-400 rounded"></div> Blocked
+         </div>
+         {(['starved', 'forming', 'unstaffed', 'down', 'offShift'] as const).map(state => (
+            <div key={state} className="flex items-center gap-2">
+                <div className={`w-3 h-3 rounded ${IDLE_STATE_CLASSES[state]}`}></div> {STATE_LABELS[state]}
+            </div>
+         ))}
+      </div>
+      ) : (
       <div className="mt-4 flex gap-6 text-xs text-gray-500 justify-center">
          <div className="flex items-center gap-2">
             <div className="w-3 h-3 bg-red-600 rounded"></div> Machine Park
@@ -95,9 +277,15 @@ const ProcessDiagram: React.FC<ProcessDiagramProps> = ({
          <div className="flex items-center gap-2">
             <div className="w-3 h-3 bg-red-500 rounded-full"></div> Work Station
          </div>
+         {line.stages.some(s => s.failures) && (
+            <div className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-gray-500 ring-2 ring-amber-400 rounded"></div> Often Down ({'<'}{LOW_AVAILABILITY * 100}% available)
+            </div>
+         )}
       </div>
+      )}
     </div>
   );
 };
 
-export default ProcessDiagram;
\ No newline at end of file
+export default ProcessDiagram;
@@ -0,0 +1,98 @@
+import React from "react";
+import { Boxes } from "lucide-react";
+import InfoTooltip from "./InfoTooltip";
+import DistributionEditor from "./DistributionEditor";
+import { ProductType, ProductionLine, ProcessTimeTable, Distribution, PRODUCT_TYPES } from "../types";
+import { exponential } from "../services/distributions";
+
+interface ProductTableProps {
+  line: ProductionLine;
+  productMix: Record<ProductType, number>;
+  productPriority: Record<ProductType, number>;
+  processTimes: ProcessTimeTable;
+  onMixChange: (mix: Record<ProductType, number>) => void;
+  onPriorityChange: (priority: Record<ProductType, number>) => void;
+  onTimesChange: (times: ProcessTimeTable) => void;
+}
+
+const ProductTable: React.FC<ProductTableProps> = ({ line, productMix, productPriority, processTimes, onMixChange, onPriorityChange, onTimesChange }) => {
+  const totalWeight = PRODUCT_TYPES.reduce((sum, p) => sum + Math.max(0, productMix[p] ?? 0), 0);
+
+  const setWeight = (product: ProductType, value: number) => {
+    onMixChange({ ...productMix, [product]: Math.max(0, isNaN(value) ? 0 : value) });
+  };
+
+  const setPriority = (product: ProductType, value: number) => {
+    onPriorityChange({ ...productPriority, [product]: Math.max(1, isNaN(value) ? 1 : value) });
+  };
+
+  const setTime = (product: ProductType, stageId: string, dist: Distribution) => {
+    onTimesChange({
+      ...processTimes,
+      [product]: { ...processTimes[product], [stageId]: dist },
+    });
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-100">
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide flex items-center gap-2 mb-3">
+        <Boxes className="w-4 h-4 text-red-600" />
+        Product Mix & Process Times
+        <InfoTooltip text="Weights set how often each product arrives (relative, not %). Priority (1 = most urgent) is used by stages with the Priority rule. Times are distributions in minutes per stage." />
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="bg-gray-50 text-gray-500 font-medium">
+            <tr>
+              <th className="px-3 py-2">Product</th>
+              <th className="px-3 py-2">Mix Weight</th>
+              <th className="px-3 py-2">Share</th>
+              <th className="px-3 py-2">Priority</th>
+              {line.stages.map(s => <th key={s.id} className="px-3 py-2">{s.name} (min)</th>)}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {PRODUCT_TYPES.map(product => (
+              <tr key={product}>
+                <td className="px-3 py-1.5 font-medium text-gray-700">{product}</td>
+                <td className="px-3 py-1.5">
+                  <input
+                    type="number" min="0" step="0.1"
+                    value={productMix[product] ?? 0}
+                    onChange={(e) => setWeight(product, parseFloat(e.target.value))}
+                    className="w-16 px-2 py-1 border border-gray-300 rounded focus:outline-none bg-white text-gray-900"
+                  />
+                </td>
+                <td className="px-3 py-1.5 text-gray-500">
+                  {totalWeight > 0 ? `${((Math.max(0, productMix[product] ?? 0) / totalWeight) * 100).toFixed(0)}%` : '-'}
+                </td>
+                <td className="px-3 py-1.5">
+                  <input
+                    type="number" min="1" step="1"
+                    value={productPriority[product] ?? 1}
+                    onChange={(e) => setPriority(product, parseInt(e.target.value))}
+                    className="w-14 px-2 py-1 border border-gray-300 rounded focus:outline-none bg-white text-gray-900"
+                  />
+                </td>
+                {line.stages.map(stage => {
+                  const routed = line.routings[product].includes(stage.id);
+                  return (
+                    <td key={stage.id} className="px-3 py-1.5" title={routed ? undefined : `${product} skips ${stage.name}`}>
+                      <DistributionEditor
+                        value={processTimes[product]?.[stage.id] ?? exponential(0)}
+                        disabled={!routed}
+                        onChange={(dist) => setTime(product, stage.id, dist)}
+                      />
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ProductTable;
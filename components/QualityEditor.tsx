@@ -0,0 +1,113 @@
+import React from "react";
+import { ShieldCheck } from "lucide-react";
+import InfoTooltip from "./InfoTooltip";
+import { ProductionLine, ProductType, QualityCheck, PRODUCT_TYPES } from "../types";
+
+interface QualityEditorProps {
+  line: ProductionLine;
+  onChange: (line: ProductionLine) => void;
+}
+
+// Starting point when a check is switched on: 5% rework from the first stage, 2% scrap
+const defaultCheck = (line: ProductionLine): QualityCheck => ({
+  rework: Object.fromEntries(PRODUCT_TYPES.map(p => [p, 0.05])) as Record<ProductType, number>,
+  scrap: Object.fromEntries(PRODUCT_TYPES.map(p => [p, 0.02])) as Record<ProductType, number>,
+  reworkStage: line.stages[0].id,
+  scrapCost: 20,
+});
+
+const inputClass = "px-1 py-0.5 border border-gray-300 rounded focus:outline-none bg-white text-gray-900";
+
+const QualityEditor: React.FC<QualityEditorProps> = ({ line, onChange }) => {
+  const setCheck = (stageId: string, qualityCheck: QualityCheck | undefined) => {
+    onChange({ ...line, stages: line.stages.map(s => s.id === stageId ? { ...s, qualityCheck } : s) });
+  };
+
+  const setShare = (stageId: string, check: QualityCheck, key: 'rework' | 'scrap', product: ProductType, raw: string) => {
+    const share = Math.min(100, Math.max(0, parseFloat(raw) || 0)) / 100;
+    setCheck(stageId, { ...check, [key]: { ...check[key], [product]: share } });
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-100">
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide flex items-center gap-2 mb-3">
+        <ShieldCheck className="w-4 h-4 text-red-600" />
+        Quality Checks
+        <InfoTooltip text="After a checking stage, each part passes, goes back to the rework stage and repeats the routing from there, or is scrapped. Percentages are per product; the rest passes." />
+      </h3>
+      <div className="space-y-3">
+        {line.stages.map(stage => {
+          const check = stage.qualityCheck;
+          return (
+            <div key={stage.id} className="text-xs">
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2 text-gray-700 font-medium">
+                  <input
+                    type="checkbox"
+                    checked={!!check}
+                    onChange={(e) => setCheck(stage.id, e.target.checked ? defaultCheck(line) : undefined)}
+                    className="accent-red-600"
+                  />
+                  {stage.name}
+                </label>
+                {check && (
+                  <>
+                    <label className="flex items-center gap-1 text-gray-500">
+                      Rework at
+                      <select
+                        value={check.reworkStage}
+                        onChange={(e) => setCheck(stage.id, { ...check, reworkStage: e.target.value })}
+                        className={inputClass}
+                      >
+                        {line.stages.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                      </select>
+                    </label>
+                    <label className="flex items-center gap-1 text-gray-500">
+                      Scrap cost
+                      <input
+                        type="number" min="0" step="1"
+                        value={check.scrapCost}
+                        onChange={(e) => setCheck(stage.id, { ...check, scrapCost: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className={`w-16 ${inputClass}`}
+                      />
+                      $/part
+                    </label>
+                  </>
+                )}
+              </div>
+              {check && (
+                <table className="mt-1 ml-5 text-left">
+                  <thead className="text-gray-500">
+                    <tr>
+                      <th className="px-2 py-1 font-medium"></th>
+                      {PRODUCT_TYPES.map(p => <th key={p} className="px-2 py-1 font-medium text-center">{p}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(['rework', 'scrap'] as const).map(key => (
+                      <tr key={key}>
+                        <td className="px-2 py-0.5 text-gray-500">{key === 'rework' ? 'Rework %' : 'Scrap %'}</td>
+                        {PRODUCT_TYPES.map(p => (
+                          <td key={p} className="px-2 py-0.5">
+                            <input
+                              type="number" min="0" max="100" step="0.5"
+                              value={+((check[key][p] ?? 0) * 100).toFixed(2)}
+                              onChange={(e) => setShare(stage.id, check, key, p, e.target.value)}
+                              className={`w-14 text-center ${inputClass}`}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default QualityEditor;
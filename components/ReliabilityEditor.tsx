@@ -0,0 +1,92 @@
+import React from "react";
+import { Wrench } from "lucide-react";
+import InfoTooltip from "./InfoTooltip";
+import DistributionEditor from "./DistributionEditor";
+import { ProductionLine, FailureModel } from "../types";
+import { exponential } from "../services/distributions";
+
+interface ReliabilityEditorProps {
+  line: ProductionLine;
+  onChange: (line: ProductionLine) => void;
+}
+
+// Starting point when breakdowns are switched on: fails every ~8h, ~30 min to fix
+const DEFAULT_FAILURE_MODEL: FailureModel = {
+  timeBetweenFailures: exponential(480),
+  timeToRepair: exponential(30),
+  handling: 'preemptive',
+};
+
+const ReliabilityEditor: React.FC<ReliabilityEditorProps> = ({ line, onChange }) => {
+  const setFailures = (stageId: string, failures: FailureModel | undefined) => {
+    onChange({ ...line, stages: line.stages.map(s => s.id === stageId ? { ...s, failures } : s) });
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-100">
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide flex items-center gap-2 mb-3">
+        <Wrench className="w-4 h-4 text-red-600" />
+        Breakdowns
+        <InfoTooltip text="Each machine fails independently. Preemptive: the running job is interrupted and resumes after repair. Non-preemptive: the machine finishes its job first." />
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="bg-gray-50 text-gray-500 font-medium">
+            <tr>
+              <th className="px-3 py-2">Stage</th>
+              <th className="px-3 py-2 text-center">Fails</th>
+              <th className="px-3 py-2">Time Between Failures</th>
+              <th className="px-3 py-2">Time to Repair</th>
+              <th className="px-3 py-2">Interrupted Job</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {line.stages.map(stage => {
+              const failures = stage.failures;
+              return (
+                <tr key={stage.id}>
+                  <td className="px-3 py-1.5 font-medium text-gray-700">{stage.name}</td>
+                  <td className="px-3 py-1.5 text-center">
+                    <input
+                      type="checkbox"
+                      checked={!!failures}
+                      onChange={(e) => setFailures(stage.id, e.target.checked ? DEFAULT_FAILURE_MODEL : undefined)}
+                      className="accent-red-600"
+                    />
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <DistributionEditor
+                      value={failures?.timeBetweenFailures ?? DEFAULT_FAILURE_MODEL.timeBetweenFailures}
+                      disabled={!failures}
+                      onChange={(timeBetweenFailures) => failures && setFailures(stage.id, { ...failures, timeBetweenFailures })}
+                    />
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <DistributionEditor
+                      value={failures?.timeToRepair ?? DEFAULT_FAILURE_MODEL.timeToRepair}
+                      disabled={!failures}
+                      onChange={(timeToRepair) => failures && setFailures(stage.id, { ...failures, timeToRepair })}
+                    />
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <select
+                      value={failures?.handling ?? DEFAULT_FAILURE_MODEL.handling}
+                      disabled={!failures}
+                      onChange={(e) => failures && setFailures(stage.id, { ...failures, handling: e.target.value as FailureModel['handling'] })}
+                      className="px-1 py-1 border border-gray-300 rounded focus:outline-none bg-white text-gray-900 disabled:opacity-40"
+                    >
+                      <option value="preemptive">Preemptive (resume)</option>
+                      <option value="non-preemptive">Non-preemptive</option>
+                    </select>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ReliabilityEditor;
@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useRef, useCallback } from "react";
+import { Play, Pause, RotateCcw } from "lucide-react";
+import { SimulationConfig, SimulationRun, SimulationSnapshot } from "../types";
+import { SimulationEngine } from "../services/simulationEngine";
+import { validateSimulationConfig } from "../services/productionLine";
+import { formatClock, MINUTES_PER_DAY, DAY_NAMES } from "../services/calendar";
+
+// Simulated minutes per real second
+const SPEEDS = [1, 5, 15, 60, 240];
+
+// Real seconds a job token takes to travel from one stage to the next
+const TRANSIT_SECONDS = 0.6;
+
+export interface Replay {
+  snapshot: SimulationSnapshot | null;
+  playing: boolean;
+  speed: number;
+  transit: number; // Simulated minutes a moving job is drawn in transit
+  setPlaying: (playing: boolean) => void;
+  setSpeed: (speed: number) => void;
+  seek: (time: number) => void;
+}
+
+// Drives a single replication of `config` in step with the wall clock while enabled.
+// Seeking backwards replays from the start; runs are deterministic, so it lands on the same state.
+export const useReplay = (config: SimulationConfig, enabled: boolean): Replay => {
+  const runRef = useRef<SimulationRun | null>(null);
+  const [snapshot, setSnapshot] = useState<SimulationSnapshot | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(15);
+  const transit = speed * TRANSIT_SECONDS;
+
+  const startRun = useCallback((): SimulationRun | null => {
+    if (validateSimulationConfig(config).length > 0) return null;
+    return new SimulationEngine({ ...config, replications: 1, trace: false }).start();
+  }, [config]);
+
+  useEffect(() => {
+    runRef.current = enabled ? startRun() : null;
+    setSnapshot(runRef.current?.snapshot() ?? null);
+    setPlaying(false);
+  }, [enabled, startRun]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const run = runRef.current;
+      if (!run) return;
+      run.runUntil(run.time + speed * (now - last) / 1000);
+      last = now;
+      setSnapshot(run.snapshot(run.time - transit));
+      if (run.done || run.time >= config.duration) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, transit, config.duration]);
+
+  const seek = (time: number) => {
+    let run = runRef.current;
+    if (!run) return;
+    if (time < run.time) {
+      run = startRun();
+      runRef.current = run;
+      if (!run) return;
+    }
+    run.runUntil(time);
+    setSnapshot(run.snapshot(run.time - transit));
+  };
+
+  return { snapshot, playing, speed, transit, setPlaying, setSpeed, seek };
+};
+
+// "Tue 14:05" (time 0 is Monday 00:00)
+const formatSimTime = (minutes: number) => {
+  const day = Math.floor(minutes / MINUTES_PER_DAY);
+  return `${DAY_NAMES[day % 7]} ${formatClock(Math.floor(minutes % MINUTES_PER_DAY))}`;
+};
+
+interface ReplayControlsProps {
+  replay: Replay;
+  duration: number;
+}
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({ replay, duration }) => {
+  const { snapshot, playing, speed } = replay;
+  const time = snapshot?.time ?? 0;
+  const atEnd = time >= duration || !!snapshot?.done;
+
+  const togglePlaying = () => {
+    if (atEnd) replay.seek(0);
+    replay.setPlaying(!playing);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-4 text-xs text-gray-600 bg-gray-50 border border-gray-100 rounded-lg p-2">
+      <button
+        onClick={togglePlaying}
+        disabled={!snapshot}
+        className="flex items-center gap-1 px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-40 transition-colors"
+      >
+        {playing ? <><Pause className="w-3 h-3" /> Pause</> : atEnd ? <><RotateCcw className="w-3 h-3" /> Replay</> : <><Play className="w-3 h-3" /> Play</>}
+      </button>
+      <select
+        value={speed}
+        onChange={(e) => replay.setSpeed(parseFloat(e.target.value))}
+        className="px-1 py-0.5 border border-gray-300 rounded focus:outline-none bg-white text-gray-900"
+      >
+        {SPEEDS.map(s => <option key={s} value={s}>{s} min/s</option>)}
+      </select>
+      <input
+        type="range" min="0" max={duration} step="1"
+        value={Math.min(time, duration)}
+        onChange={(e) => replay.seek(parseFloat(e.target.value))}
+        disabled={!snapshot}
+        className="flex-1 min-w-[160px] h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-red-600"
+      />
+      <span className="font-mono w-20 text-right">{formatSimTime(Math.min(time, duration))}</span>
+      {snapshot && (
+        <span className="text-gray-500">
+          WIP <span className="font-semibold text-gray-900">{snapshot.wip}</span>
+          {' '}· Shipped <span className="font-semibold text-gray-900">{snapshot.completedJobs}</span>
+          {snapshot.scrappedJobs > 0 && <> · Scrapped <span className="font-semibold text-gray-900">{snapshot.scrappedJobs}</span></>}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -0,0 +1,81 @@
+import React from "react";
+import { Scale } from "lucide-react";
+import InfoTooltip from "./InfoTooltip";
+import { ConfidenceLevel, KpiComparison, ScenarioResult, TrackedKpi } from "../types";
+import { compareScenarios } from "../services/scenarioComparison";
+import { TRACKED_KPIS } from "../services/statistics";
+import { capacitySummary } from "../services/productionLine";
+
+interface ScenarioComparisonProps {
+  scenarios: ScenarioResult[]; // The first one is the reference
+  labels: string[];
+  level: ConfidenceLevel;
+}
+
+const KPIS = Object.keys(TRACKED_KPIS) as TrackedKpi[];
+
+const formatValue = (kpi: TrackedKpi, value: number) => `${(value * TRACKED_KPIS[kpi].scale).toFixed(2)}`;
+
+const DifferenceCell: React.FC<{ comparison: KpiComparison }> = ({ comparison }) => {
+  const { kpi, difference, significant, better } = comparison;
+  if (!difference) return <span className="text-gray-400 italic">needs 2+ runs</span>;
+  const sign = difference.mean > 0 ? '+' : '';
+  const color = !significant ? 'text-gray-400' : better === 'scenario' ? 'text-green-600' : 'text-red-600';
+  return (
+    <div className={color}>
+      <span className="font-semibold">{sign}{formatValue(kpi, difference.mean)}</span>
+      <span className="text-[10px] ml-1">[{formatValue(kpi, difference.lower)}, {formatValue(kpi, difference.upper)}]</span>
+      {!significant && <div className="text-[10px] italic">no significant difference</div>}
+    </div>
+  );
+};
+
+const ScenarioComparison: React.FC<ScenarioComparisonProps> = ({ scenarios, labels, level }) => {
+  const [reference, ...others] = scenarios;
+  const comparisons = others.map(s => compareScenarios(reference, s, level));
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 overflow-x-auto">
+      <h3 className="text-sm font-bold text-gray-900 flex items-center gap-2 mb-4">
+        <Scale className="w-4 h-4 text-gray-500" /> Scenario Comparison
+        <InfoTooltip text={`Differences to the reference (first selected run) with ${Math.round(level * 100)}% confidence intervals. Runs with the same seed share random numbers, so they are compared replication by replication (paired-t); otherwise Welch's t-test is used. Green = significantly better, red = significantly worse, grey = the interval includes 0, so the difference could be chance.`} />
+      </h3>
+      <table className="w-full text-left text-xs">
+        <thead className="bg-gray-50 text-gray-500 font-medium">
+          <tr>
+            <th className="px-3 py-2">KPI</th>
+            <th className="px-3 py-2">
+              {labels[0]} <span className="font-normal">(reference)</span>
+              <div className="font-mono font-normal text-[10px] text-gray-400">{capacitySummary(reference.config.line)}</div>
+            </th>
+            {others.map((s, i) => (
+              <th key={s.id} className="px-3 py-2">
+                {labels[i + 1]} <span className="font-normal">({comparisons[i][0].method === 'paired' ? 'paired-t' : 'Welch'})</span>
+                <div className="font-mono font-normal text-[10px] text-gray-400">{capacitySummary(s.config.line)}</div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {KPIS.map((kpi, k) => (
+            <tr key={kpi}>
+              <td className="px-3 py-2 font-medium text-gray-700">
+                {TRACKED_KPIS[kpi].label}
+                <span className="text-[10px] text-gray-400 ml-1">{TRACKED_KPIS[kpi].unit}</span>
+              </td>
+              <td className="px-3 py-2 text-gray-900">{formatValue(kpi, TRACKED_KPIS[kpi].value(reference.stats))}</td>
+              {others.map((s, i) => (
+                <td key={s.id} className="px-3 py-2">
+                  <div className="text-gray-900">{formatValue(kpi, TRACKED_KPIS[kpi].value(s.stats))}</div>
+                  <DifferenceCell comparison={comparisons[i][k]} />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ScenarioComparison;
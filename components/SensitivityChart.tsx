@@ -0,0 +1,129 @@
+import React, { useState } from "react";
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ErrorBar } from "recharts";
+import { TrendingUp } from "lucide-react";
+import InfoTooltip from "./InfoTooltip";
+import { ProductionLine, SensitivityResult, TrackedKpi } from "../types";
+import { TRACKED_KPIS } from "../services/statistics";
+import { axisValues, parameterLabel } from "../services/sensitivity";
+
+interface SensitivityChartProps {
+  result: SensitivityResult | null;
+  line: ProductionLine;
+}
+
+const KPIS = Object.keys(TRACKED_KPIS) as TrackedKpi[];
+
+// Red (worst) through amber to green (best)
+const heatColor = (t: number) => `hsl(${Math.round(t * 120)}, 70%, ${85 - Math.round(Math.abs(t - 0.5) * 20)}%)`;
+
+const SensitivityChart: React.FC<SensitivityChartProps> = ({ result, line }) => {
+  const [kpi, setKpi] = useState<TrackedKpi>('avgDegradationCostPerPart');
+  const info = TRACKED_KPIS[kpi];
+  const format = (value: number) => (value * info.scale).toFixed(2);
+
+  const renderLine = (res: SensitivityResult) => (
+    <div className="h-40">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={res.points.map(p => {
+          const ci = p.kpis[kpi];
+          return { xValue: p.xValue, value: ci.mean * info.scale, error: [(ci.mean - ci.lower) * info.scale, (ci.upper - ci.mean) * info.scale] };
+        })}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="xValue" type="number" domain={['auto', 'auto']} fontSize={10} tickCount={5} />
+          <YAxis fontSize={10} />
+          <Tooltip
+            formatter={(value: number) => [value.toFixed(2), `${info.label} (${info.unit})`]}
+            labelFormatter={(x) => `${parameterLabel(res.sweep.x.parameter, line)}: ${x}`}
+            contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+          />
+          <Line type="monotone" dataKey="value" stroke="#dc2626" strokeWidth={2} dot={{ r: 3 }}>
+            <ErrorBar dataKey="error" width={4} strokeWidth={1} stroke="#dc2626" />
+          </Line>
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+
+  const renderHeatmap = (res: SensitivityResult) => {
+    const xs = axisValues(res.sweep.x);
+    const ys = axisValues(res.sweep.y!);
+    const means = res.points.map(p => p.kpis[kpi].mean);
+    const lo = Math.min(...means);
+    const hi = Math.max(...means);
+    // 1 = best end of the range, whichever direction is better for this KPI
+    const goodness = (v: number) => {
+      const t = hi === lo ? 0.5 : (v - lo) / (hi - lo);
+      return info.better === 'higher' ? t : 1 - t;
+    };
+    return (
+      <div className="text-[10px] text-gray-500">
+        <div className="flex">
+          <div className="flex items-center justify-center w-4">
+            <span className="-rotate-90 whitespace-nowrap">{parameterLabel(res.sweep.y!.parameter, line)}</span>
+          </div>
+          <div className="flex-1 overflow-x-auto">
+            <table className="border-separate border-spacing-px">
+              <tbody>
+                {/* Highest y at the top, like a chart */}
+                {ys.map((y, j) => ({ y, j })).reverse().map(({ y, j }) => (
+                  <tr key={y}>
+                    <td className="pr-1 text-right">{y}</td>
+                    {xs.map((x, i) => {
+                      const ci = res.points[j * xs.length + i].kpis[kpi];
+                      return (
+                        <td
+                          key={x}
+                          className="w-5 h-5 rounded-sm"
+                          style={{ backgroundColor: heatColor(goodness(ci.mean)) }}
+                          title={`${x} × ${y}: ${format(ci.mean)} ${info.unit} [${format(ci.lower)}, ${format(ci.upper)}]`}
+                        />
+                      );
+                    })}
+                  </tr>
+                ))}
+                <tr>
+                  <td></td>
+                  {xs.map(x => <td key={x} className="text-center">{x}</td>)}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+        <div className="text-center mt-1">{parameterLabel(res.sweep.x.parameter, line)}</div>
+        <div className="flex items-center justify-center gap-1 mt-2">
+          {format(info.better === 'lower' ? hi : lo)}
+          <div className="w-24 h-2 rounded" style={{ background: `linear-gradient(to right, ${heatColor(0)}, ${heatColor(0.5)}, ${heatColor(1)})` }} />
+          {format(info.better === 'lower' ? lo : hi)} {info.unit}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between mb-4 gap-2">
+        <h3 className="text-sm font-bold text-gray-900 flex items-center gap-1">
+          Sensitivity
+          <InfoTooltip text="One factor: the KPI's mean at each value with its confidence interval. Two factors: a heatmap from worst (red) to best (green); hover a cell for its value and interval." />
+        </h3>
+        <select
+          value={kpi}
+          onChange={(e) => setKpi(e.target.value as TrackedKpi)}
+          className="text-[10px] text-gray-700 bg-gray-100 px-2 py-1 rounded focus:outline-none"
+        >
+          {KPIS.map(k => <option key={k} value={k}>{TRACKED_KPIS[k].label}</option>)}
+        </select>
+      </div>
+      {result && result.points.length > 0 ? (
+        result.sweep.y ? renderHeatmap(result) : renderLine(result)
+      ) : (
+        <div className="h-40 flex flex-col items-center justify-center text-gray-400 text-xs">
+          <TrendingUp className="w-8 h-8 mb-2 opacity-20" />
+          Click "Analyze Sensitivity"
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SensitivityChart;
@@ -0,0 +1,72 @@
+import React from "react";
+import { TrendingUp } from "lucide-react";
+import InfoTooltip from "./InfoTooltip";
+import { SensitivitySweep, SimulationConfig, SweepAxis } from "../types";
+import { axisValues, defaultAxis, MAX_AXIS_VALUES, parameterKey, parameterLabel, sweepParameters, validateSweep } from "../services/sensitivity";
+
+interface SweepEditorProps {
+  config: SimulationConfig;
+  sweep: SensitivitySweep;
+  onChange: (sweep: SensitivitySweep) => void;
+}
+
+const inputClass = "px-1 py-0.5 border border-gray-300 rounded focus:outline-none bg-white text-gray-900";
+
+const SweepEditor: React.FC<SweepEditorProps> = ({ config, sweep, onChange }) => {
+  const parameters = sweepParameters(config.line);
+  const problems = validateSweep(sweep, config.line);
+  const runCount = axisValues(sweep.x).length * (sweep.y ? axisValues(sweep.y).length : 1);
+
+  const renderAxis = (axis: SweepAxis, name: string, update: (axis: SweepAxis) => void) => {
+    const setField = (field: 'from' | 'to' | 'step', raw: string) => update({ ...axis, [field]: parseFloat(raw) });
+    return (
+      <div className="flex flex-wrap items-center gap-1 text-gray-500">
+        <span className="w-4 font-semibold">{name}</span>
+        <select
+          value={parameterKey(axis.parameter)}
+          onChange={(e) => update(defaultAxis(config, parameters.find(p => parameterKey(p) === e.target.value)!))}
+          className={inputClass}
+        >
+          {parameters.map(p => <option key={parameterKey(p)} value={parameterKey(p)}>{parameterLabel(p, config.line)}</option>)}
+        </select>
+        from
+        <input type="number" step="any" value={axis.from} onChange={(e) => setField('from', e.target.value)} className={`w-16 ${inputClass}`} />
+        to
+        <input type="number" step="any" value={axis.to} onChange={(e) => setField('to', e.target.value)} className={`w-16 ${inputClass}`} />
+        step
+        <input type="number" step="any" min="0" value={axis.step} onChange={(e) => setField('step', e.target.value)} className={`w-16 ${inputClass}`} />
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-100">
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide flex items-center gap-2 mb-3">
+        <TrendingUp className="w-4 h-4 text-red-600" />
+        Sensitivity Sweep
+        <InfoTooltip text={`"Analyze Sensitivity" runs the current settings once per value of the chosen parameter (up to ${MAX_AXIS_VALUES} per axis), with at most 5 replications each. With a second factor every combination is run and shown as a heatmap, so runs multiply quickly.`} />
+      </h3>
+      <div className="space-y-2 text-xs">
+        {renderAxis(sweep.x, 'X', (x) => onChange({ ...sweep, x }))}
+        <label className="flex items-center gap-2 text-gray-500">
+          <input
+            type="checkbox"
+            checked={!!sweep.y}
+            onChange={(e) => {
+              const other = parameters.find(p => parameterKey(p) !== parameterKey(sweep.x.parameter))!;
+              onChange({ ...sweep, y: e.target.checked ? defaultAxis(config, other) : undefined });
+            }}
+            className="accent-red-600"
+          />
+          Second factor
+        </label>
+        {sweep.y && renderAxis(sweep.y, 'Y', (y) => onChange({ ...sweep, y }))}
+        <div className={`text-[10px] ${problems.length > 0 ? 'text-red-700' : 'text-gray-400'}`}>
+          {problems.length > 0 ? `${problems.join('. ')}.` : `${runCount} sweep point${runCount === 1 ? '' : 's'}`}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SweepEditor;
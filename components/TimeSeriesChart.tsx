@@ -0,0 +1,87 @@
+import React, { useState } from "react";
+import { ResponsiveContainer, ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine } from "recharts";
+import { ChartSpline } from "lucide-react";
+import InfoTooltip from "./InfoTooltip";
+import { ProductionLine, TimeSeries, TimeSeriesSet } from "../types";
+import { stageColor } from "../services/productionLine";
+
+interface TimeSeriesChartProps {
+  series: TimeSeriesSet;
+  line: ProductionLine;
+  warmUp: number;
+  replications: number;
+  confidenceLevel: number;
+}
+
+type Metric = 'wip' | 'queues' | 'busyMachines' | 'cumulativeCost' | 'completions';
+
+const METRICS: { id: Metric; label: string }[] = [
+  { id: 'wip', label: 'WIP' },
+  { id: 'queues', label: 'Queue lengths' },
+  { id: 'busyMachines', label: 'Busy machines' },
+  { id: 'cumulativeCost', label: 'Cumulative cost' },
+  { id: 'completions', label: 'Completions' },
+];
+
+interface Curve {
+  key: string;
+  name: string;
+  color: string;
+  series: TimeSeries;
+}
+
+const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ series, line, warmUp, replications, confidenceLevel }) => {
+  const [metric, setMetric] = useState<Metric>('wip');
+
+  // Per-stage metrics get one curve per stage
+  const curves: Curve[] = metric === 'queues' || metric === 'busyMachines'
+    ? line.stages.map((stage, i) => ({ key: stage.id, name: stage.name, color: stageColor(i), series: series[metric][stage.id] }))
+    : [{ key: metric, name: METRICS.find(m => m.id === metric)!.label, color: '#ef4444', series: series[metric] }];
+
+  const format = (v: number) => metric === 'cumulativeCost' ? +v.toFixed(0) : +v.toFixed(2);
+  const data = series.wip.mean.map((_, i) => ({
+    time: Math.round((i + 0.5) * series.binWidth),
+    ...Object.fromEntries(curves.flatMap(c => [
+      [c.key, format(c.series.mean[i])],
+      [`${c.key}_band`, [format(Math.max(0, c.series.lower[i])), format(c.series.upper[i])]],
+    ])),
+  }));
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-gray-900 flex items-center gap-2">
+          <ChartSpline className="w-4 h-4 text-gray-500" /> Over Time
+          <InfoTooltip text={`Time-weighted average per time bin, averaged over ${replications} replication(s); the shaded band is the ${Math.round(confidenceLevel * 100)}% confidence interval across replications. Cost and completions are running totals counted from the end of the warm-up, with cost charged when a wait ends.`} />
+        </h3>
+        <select
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as Metric)}
+          className="px-1 py-0.5 text-xs border border-gray-300 rounded focus:outline-none bg-white text-gray-900"
+        >
+          {METRICS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+        </select>
+      </div>
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="time" type="number" domain={[0, 'dataMax']} tick={{fontSize: 10}} unit=" min" />
+            <YAxis tick={{fontSize: 10}} tickFormatter={(v) => metric === 'cumulativeCost' ? `$${Math.round(v)}` : String(v)} />
+            <Tooltip labelFormatter={(t) => `${t} min`} />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            {curves.map(c => (
+              <Area key={`${c.key}_band`} type="monotone" dataKey={`${c.key}_band`} stroke="none" fill={c.color} fillOpacity={0.15} legendType="none" tooltipType="none" isAnimationActive={false} />
+            ))}
+            {curves.map(c => (
+              <Line key={c.key} type="monotone" dataKey={c.key} stroke={c.color} strokeWidth={2} dot={false} name={c.name} isAnimationActive={false} />
+            ))}
+            {warmUp > 0 && <ReferenceLine x={warmUp} stroke="#6366f1" strokeDasharray="4 4" label={{ value: 'Warm-up', fontSize: 10, fill: '#6366f1' }} />}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default TimeSeriesChart;
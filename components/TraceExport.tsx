@@ -0,0 +1,50 @@
+import React from "react";
+import { Download, ScrollText } from "lucide-react";
+import InfoTooltip from "./InfoTooltip";
+import { SimulationTrace } from "../types";
+import { traceEventsToCsv, traceEventsToJsonLines, tracedJobsToCsv, tracedJobsToJsonLines } from "../services/traceExport";
+
+interface TraceExportProps {
+  trace: SimulationTrace;
+}
+
+const download = (filename: string, text: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const EXPORTS = [
+  { label: 'Events CSV', filename: 'trace-events.csv', type: 'text/csv', build: traceEventsToCsv },
+  { label: 'Events JSONL', filename: 'trace-events.jsonl', type: 'application/x-ndjson', build: traceEventsToJsonLines },
+  { label: 'Jobs CSV', filename: 'trace-jobs.csv', type: 'text/csv', build: tracedJobsToCsv },
+  { label: 'Jobs JSONL', filename: 'trace-jobs.jsonl', type: 'application/x-ndjson', build: tracedJobsToJsonLines },
+];
+
+const TraceExport: React.FC<TraceExportProps> = ({ trace }) => (
+  <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+    <h3 className="text-sm font-bold text-gray-900 flex items-center gap-2 mb-2">
+      <ScrollText className="w-4 h-4 text-gray-500" /> Event Trace
+      <InfoTooltip text="Every processed event with the queue length of each stage after it, and every job with its stage visit timestamps (one CSV row per visit). The warm-up period is included." />
+    </h3>
+    <p className="text-xs text-gray-500 mb-3">
+      {trace.events.length.toLocaleString()} events, {trace.jobs.length.toLocaleString()} jobs
+    </p>
+    <div className="grid grid-cols-2 gap-2">
+      {EXPORTS.map(e => (
+        <button
+          key={e.label}
+          onClick={() => download(e.filename, e.build(trace), e.type)}
+          className="flex items-center justify-center gap-1 px-3 py-1.5 text-xs border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          <Download className="w-3 h-3" /> {e.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default TraceExport;
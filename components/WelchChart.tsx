@@ -0,0 +1,66 @@
+import React, { useState } from "react";
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine } from "recharts";
+import { Timer } from "lucide-react";
+import InfoTooltip from "./InfoTooltip";
+import { WelchSeries } from "../types";
+
+interface WelchChartProps {
+  series: WelchSeries;
+  warmUp: number;
+  replications: number;
+}
+
+// Welch's moving average: a centred window of 2w+1 bins, shrunk near the start so it stays centred
+const movingAverage = (values: number[], w: number): (number | null)[] =>
+  values.map((_, i) => {
+    if (i >= values.length - w) return null;
+    const half = Math.min(i, w);
+    const window = values.slice(i - half, i + half + 1);
+    return window.reduce((a, b) => a + b, 0) / window.length;
+  });
+
+const WelchChart: React.FC<WelchChartProps> = ({ series, warmUp, replications }) => {
+  const [window, setWindow] = useState(5);
+  const smoothed = movingAverage(series.wip, window);
+  const data = series.wip.map((wip, i) => ({
+    time: Math.round((i + 0.5) * series.binWidth),
+    wip: +wip.toFixed(2),
+    smoothed: smoothed[i] === null ? null : +smoothed[i]!.toFixed(2),
+  }));
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-gray-900 flex items-center gap-2">
+          <Timer className="w-4 h-4 text-gray-500" /> Warm-up (Welch Plot)
+          <InfoTooltip text={`WIP per time bin averaged over ${replications} replication(s), then smoothed. Set the warm-up to where the smoothed line levels off; more replications give a clearer picture.`} />
+        </h3>
+        <label className="flex items-center gap-1 text-xs text-gray-500">
+          Window
+          <input
+            type="number" min="0" max="25"
+            value={window}
+            onChange={(e) => setWindow(Math.max(0, Math.min(25, parseInt(e.target.value) || 0)))}
+            className="w-14 px-1 py-0.5 border border-gray-300 rounded focus:outline-none bg-white text-gray-900 text-center"
+          />
+        </label>
+      </div>
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="time" type="number" domain={[0, 'dataMax']} tick={{fontSize: 10}} unit=" min" />
+            <YAxis tick={{fontSize: 10}} />
+            <Tooltip labelFormatter={(t) => `${t} min`} />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            <Line type="monotone" dataKey="wip" stroke="#d1d5db" dot={false} name="Avg WIP" isAnimationActive={false} />
+            <Line type="monotone" dataKey="smoothed" stroke="#ef4444" strokeWidth={2} dot={false} name="Moving Avg" isAnimationActive={false} connectNulls={false} />
+            {warmUp > 0 && <ReferenceLine x={warmUp} stroke="#6366f1" strokeDasharray="4 4" label={{ value: 'Warm-up', fontSize: 10, fill: '#6366f1' }} />}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default WelchChart;
@@ -6,18 +6,50 @@ import ProcessDiagram from "./components/ProcessDiagram";
 import Dashboard from "./components/Dashboard";
 import IntroModal from "./components/IntroModal";
 import InfoTooltip from "./components/InfoTooltip";
-import { SimulationEngine } from "./services/simulationEngine";
-import { SimulationConfig, SimulationStats, SensitivityPoint, ScenarioResult } from "./types";
-import { Play, TrendingUp, Settings2 } from "lucide-react";
+import LineEditor from "./components/LineEditor";
+import ReliabilityEditor from "./components/ReliabilityEditor";
+import ChangeoverEditor from "./components/ChangeoverEditor";
+import QualityEditor from "./components/QualityEditor";
+import BatchEditor from "./components/BatchEditor";
+import DueDateEditor from "./components/DueDateEditor";
+import OperatorEditor from "./components/OperatorEditor";
+import CalendarEditor from "./components/CalendarEditor";
+import ProductTable from "./components/ProductTable";
+import DistributionEditor from "./components/DistributionEditor";
+import PrecisionTargetEditor from "./components/PrecisionTargetEditor";
+import SweepEditor from "./components/SweepEditor";
+import { SimulationPool, SimulationCancelledError } from "./services/simulationPool";
+import { exponential, distributionMean, scaleToMean, describeDistribution } from "./services/distributions";
+import { CONFIDENCE_LEVELS, DEFAULT_CONFIDENCE_LEVEL } from "./services/statistics";
+import { markBestScenario } from "./services/scenarioComparison";
+import { defaultSweep, sweepConfigs, sweepResult, validateSweep } from "./services/sensitivity";
+import { DEFAULT_PRODUCTION_LINE, DEFAULT_PRODUCT_MIX, DEFAULT_PRODUCT_PRIORITY, DEFAULT_PROCESS_TIMES, DEFAULT_DUE_DATE_POLICY, getStage, withStageCapacity, validateSimulationConfig, syncProcessTimes } from "./services/productionLine";
+import { SimulationConfig, SimulationStats, SensitivityResult, SensitivitySweep, ScenarioResult, ProductionLine, ProductType, ProcessTimeTable, BenchmarkResult, ConfidenceLevel } from "./types";
+import { Play, TrendingUp, Settings2, AlertCircle, Gauge, X } from "lucide-react";
+
+const HORIZON_PRESETS = [
+  { label: '8h', minutes: 480 },
+  { label: 'Day', minutes: 1440 },
+  { label: 'Week', minutes: 10080 },
+];
+
+interface RunProgress {
+  label: string; // What is being counted, e.g. "Replication"
+  done: number;
+  total: number;
+}
 
 const App: React.FC = () => {
   // Default Configuration
   const [config, setConfig] = useState<SimulationConfig>({
     duration: 480, // 8 hour shift
-    mouldingMachines: 2,
-    inspectionStations: 2,
-    packagingMachines: 1,
-    arrivalIntervalMean: 5,
+    warmUp: 0,
+    line: DEFAULT_PRODUCTION_LINE,
+    productMix: DEFAULT_PRODUCT_MIX,
+    productPriority: DEFAULT_PRODUCT_PRIORITY,
+    processTimes: DEFAULT_PROCESS_TIMES,
+    arrivalInterval: exponential(5),
+    dueDates: DEFAULT_DUE_DATE_POLICY,
     degradationCostPerMinute: 2.5,
     degradationThreshold: 0, // Minutes free before cost
     replications: 1,
@@ -26,8 +58,14 @@ const App: React.FC = () => {
 
   const [stats, setStats] = useState<SimulationStats | null>(null);
   const [history, setHistory] = useState<ScenarioResult[]>([]);
-  const [sensitivityData, setSensitivityData] = useState<SensitivityPoint[]>([]);
+  const [sweep, setSweep] = useState<SensitivitySweep>(() => defaultSweep(config));
+  const [sensitivity, setSensitivity] = useState<SensitivityResult | null>(null);
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<RunProgress | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  const poolRef = useRef<SimulationPool | null>(null);
+  const feedbackPoolRef = useRef<SimulationPool | null>(null); // Its own worker, so feedback never cancels a user's run
+  const [benchmark, setBenchmark] = useState<BenchmarkResult | null>(null);
   const [showIntro, setShowIntro] = useState(true);
   
   // AI Feedback State
@@ -36,14 +74,19 @@ const App: React.FC = () => {
   const prevStatsRef = useRef<SimulationStats | null>(null);
   const isFirstRun = useRef(true);
 
+  // The engine rejects inconsistent configs, so runs are blocked until these are fixed
+  const configProblems = validateSimulationConfig(config);
+  const sweepProblems = validateSweep(sweep, config.line);
+
   // Initial Run
   useEffect(() => {
     if (isFirstRun.current) {
-        const engine = new SimulationEngine(config);
-        const results = engine.run();
-        setStats(results);
-        prevStatsRef.current = results;
         isFirstRun.current = false;
+        runInBackground([config], 'Replication').then(runs => {
+            if (!runs) return;
+            setStats(runs[0]);
+            prevStatsRef.current = runs[0];
+        });
     }
   }, []);
 
@@ -52,35 +95,74 @@ const App: React.FC = () => {
     const timer = setTimeout(async () => {
         // Don't run if config hasn't effectively changed key params for the AI
         if (JSON.stringify(config) === JSON.stringify(prevConfigRef.current)) return;
+        if (validateSimulationConfig(config).length > 0) return;
 
         // Run a "Fast" simulation (1 replication) for the AI to analyze
         // We use a different seed or same seed? Same seed ensures delta is due to config, not randomness.
-        const fastConfig = { ...config, replications: 1 };
-        const engine = new SimulationEngine(fastConfig);
-        const newStats = engine.run();
+        const fastConfig = { ...config, replications: 1, precision: undefined };
+        feedbackPoolRef.current ??= new SimulationPool(1);
+        let newStats: SimulationStats;
+        try {
+            [newStats] = await feedbackPoolRef.current.run([fastConfig]);
+        } catch (e) {
+            // Superseded by a newer change; anything else is for the main run to report
+            if (!(e instanceof SimulationCancelledError)) console.error("Feedback run failed", e);
+            return;
+        }
 
         const prevStats = prevStatsRef.current;
 
         if (prevStats) {
             // Identify what changed
             const changes = [];
-            if (config.mouldingMachines !== prevConfigRef.current.mouldingMachines) changes.push(`Moulding: ${prevConfigRef.current.mouldingMachines}->${config.mouldingMachines}`);
-            if (config.inspectionStations !== prevConfigRef.current.inspectionStations) changes.push(`Inspection: ${prevConfigRef.current.inspectionStations}->${config.inspectionStations}`);
-            if (config.packagingMachines !== prevConfigRef.current.packagingMachines) changes.push(`Packaging: ${prevConfigRef.current.packagingMachines}->${config.packagingMachines}`);
-            if (config.arrivalIntervalMean !== prevConfigRef.current.arrivalIntervalMean) changes.push(`Arrival: ${prevConfigRef.current.arrivalIntervalMean}->${config.arrivalIntervalMean}`);
+            const prevLine = prevConfigRef.current.line;
+            config.line.stages.forEach(stage => {
+                const prevStage = getStage(prevLine, stage.id);
+                if (!prevStage) changes.push(`Added stage ${stage.name} (${stage.capacity})`);
+                else if (prevStage.capacity !== stage.capacity) changes.push(`${stage.name}: ${prevStage.capacity}->${stage.capacity}`);
+                if (prevStage && (prevStage.dispatchRule ?? 'fifo') !== (stage.dispatchRule ?? 'fifo')) {
+                    changes.push(`${stage.name} dispatching: ${prevStage.dispatchRule ?? 'fifo'}->${stage.dispatchRule ?? 'fifo'}`);
+                }
+                if (prevStage && prevStage.bufferCapacity !== stage.bufferCapacity) {
+                    changes.push(`${stage.name} buffer: ${prevStage.bufferCapacity ?? '∞'}->${stage.bufferCapacity ?? '∞'}`);
+                }
+            });
+            prevLine.stages.forEach(stage => {
+                if (!getStage(config.line, stage.id)) changes.push(`Removed stage ${stage.name}`);
+            });
+            if (JSON.stringify(prevLine.routings) !== JSON.stringify(config.line.routings)) changes.push('Product routings changed');
+            if (JSON.stringify(prevConfigRef.current.productMix) !== JSON.stringify(config.productMix)) changes.push('Product mix changed');
+            if (JSON.stringify(prevConfigRef.current.processTimes) !== JSON.stringify(config.processTimes)) changes.push('Process times changed');
+            const prevArrival = describeDistribution(prevConfigRef.current.arrivalInterval);
+            const newArrival = describeDistribution(config.arrivalInterval);
+            if (prevArrival !== newArrival) changes.push(`Arrival: ${prevArrival}->${newArrival}`);
+            if (JSON.stringify(prevConfigRef.current.arrivalProfile) !== JSON.stringify(config.arrivalProfile)) changes.push('Arrival rate profile changed');
+            if (JSON.stringify(prevLine.stages.map(s => s.calendar)) !== JSON.stringify(config.line.stages.map(s => s.calendar))) changes.push('Shift calendars changed');
+            if (JSON.stringify(prevLine.stages.map(s => s.changeovers)) !== JSON.stringify(config.line.stages.map(s => s.changeovers))) changes.push('Changeover times changed');
+            if (JSON.stringify(prevLine.stages.map(s => s.qualityCheck)) !== JSON.stringify(config.line.stages.map(s => s.qualityCheck))) changes.push('Quality checks changed');
+            if (JSON.stringify(prevLine.stages.map(s => s.batching)) !== JSON.stringify(config.line.stages.map(s => s.batching))) changes.push('Batching changed');
+            if (JSON.stringify(prevLine.operators) !== JSON.stringify(config.line.operators) || JSON.stringify(prevLine.stages.map(s => s.needsOperator)) !== JSON.stringify(config.line.stages.map(s => s.needsOperator))) changes.push('Operator pool changed');
+            if (JSON.stringify(prevConfigRef.current.dueDates) !== JSON.stringify(config.dueDates)) changes.push('Due date policy changed');
+            if (prevConfigRef.current.duration !== config.duration) changes.push(`Horizon: ${prevConfigRef.current.duration}->${config.duration} min`);
+            if (prevConfigRef.current.warmUp !== config.warmUp) changes.push(`Warm-up: ${prevConfigRef.current.warmUp}->${config.warmUp} min`);
 
             if (changes.length > 0) {
                  try {
                     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+                    const utilLines = config.line.stages.map(stage => {
+                        const before = prevStats.machineUtilization[stage.id];
+                        const after = newStats.machineUtilization[stage.id] ?? 0;
+                        const beforeText = before === undefined ? 'n/a' : `${(before * 100).toFixed(0)}%`;
+                        return `- ${stage.name} Util: ${beforeText} -> ${(after * 100).toFixed(0)}%`;
+                    }).join('\n');
                     const prompt = `
-                      Context: Job Shop Simulation (Moulding->Inspection->Packaging).
+                      Context: Job Shop Simulation (${config.line.stages.map(s => s.name).join('->')}).
                       User Change: ${changes.join(', ')}.
                       
                       Impact:
                       - Cost/Part: $${prevStats.avgDegradationCostPerPart.toFixed(2)} -> $${newStats.avgDegradationCostPerPart.toFixed(2)}
                       - Throughput: ${prevStats.throughput.toFixed(0)} -> ${newStats.throughput.toFixed(0)} jobs/hr
-                      - Inspection Util: ${(prevStats.machineUtilization.inspection * 100).toFixed(0)}% -> ${(newStats.machineUtilization.inspection * 100).toFixed(0)}%
-                      - Packaging Util: ${(prevStats.machineUtilization.packaging * 100).toFixed(0)}% -> ${(newStats.machineUtilization.packaging * 100).toFixed(0)}%
+                      ${utilLines}
                       
                       Task: Provide an INSTANT, VERY SHORT (<20 words) feedback to the user about this change. 
                       Focus on whether it was a good idea (bottleneck relieved? cost saved?) or bad (wasteful? new bottleneck?).
@@ -106,88 +188,107 @@ const App: React.FC = () => {
         // Auto-update main stats if user wants live feedback feel, 
         // but let's keep it separate if we want to preserve "Run" button for high-rep runs.
         // For better UX, let's update the main stats too if replications is low (<5)
-        if (config.replications < 5) {
+        if (config.replications < 5 && !config.precision) {
             setStats(newStats);
         }
 
     }, 600); // 600ms debounce
 
-    return () => clearTimeout(timer);
+    return () => {
+        clearTimeout(timer);
+        feedbackPoolRef.current?.cancel();
+    };
   }, [config]);
 
-  const runSimulation = useCallback(() => {
+  // Runs a task on the worker pool with progress; null if cancelled or failed
+  const inBackground = async <T,>(label: string, task: (pool: SimulationPool, onProgress: (done: number, total: number) => void) => Promise<T>): Promise<T | null> => {
+    poolRef.current ??= new SimulationPool();
     setLoading(true);
-    // Use setTimeout to allow UI to update before heavy calculation
-    setTimeout(() => {
-      const engine = new SimulationEngine(config);
-      const results = engine.run();
-      
-      setStats(results);
-      prevStatsRef.current = results; // Sync ref
-
-      // Add to History
-      setHistory(prev => {
-        const newEntry: ScenarioResult = {
-            id: Date.now(),
-            timestamp: new Date(),
-            config: { ...config },
-            stats: results
-        };
-        // Mark best
-        const all = [...prev, newEntry];
-        const minCost = Math.min(...all.map(h => h.stats.avgDegradationCostPerPart));
-        return all.map(h => ({ ...h, isBest: h.stats.avgDegradationCostPerPart === minCost }));
-      });
-
+    setRunError(null);
+    setProgress({ label, done: 0, total: 1 });
+    try {
+      return await task(poolRef.current, (done, total) => setProgress({ label, done, total }));
+    } catch (e) {
+      if (!(e instanceof SimulationCancelledError)) setRunError(e instanceof Error ? e.message : String(e));
+      return null;
+    } finally {
       setLoading(false);
-    }, 100);
+      setProgress(null);
+    }
+  };
+
+  const runInBackground = (configs: SimulationConfig[], label: string) =>
+    inBackground(label, (pool, onProgress) => pool.run(configs, onProgress));
+
+  const cancelRun = () => poolRef.current?.cancel();
+
+  const runSimulation = useCallback(async () => {
+    const runs = await runInBackground([config], 'Replication');
+    if (!runs) return;
+    const [results] = runs;
+
+    setStats(results);
+    prevStatsRef.current = results; // Sync ref
+
+    // Add to History
+    setHistory(prev => {
+      const newEntry: ScenarioResult = {
+          id: Date.now(),
+          timestamp: new Date(),
+          config: { ...config },
+          stats: { ...results, trace: undefined } // Traces can be large; only the latest run keeps one
+      };
+      // Mark best, unless the cheapest run could be cheapest by chance
+      return markBestScenario([...prev, newEntry], results.confidenceLevel);
+    });
   }, [config]);
 
-  const runSensitivityAnalysis = useCallback((variable: 'moulding' | 'inspection' | 'packaging') => {
-    setLoading(true);
-    setSensitivityData([]);
-    
-    setTimeout(() => {
-      const points: SensitivityPoint[] = [];
-      // Range: 1 to 10 machines
-      // Temporarily set replications to 3 for sensitivity speed if user has set high reps
-      const sensitivityConfig = { ...config, replications: Math.min(config.replications, 5) };
-
-      for (let i = 1; i <= 10; i++) {
-        const testConfig = { ...sensitivityConfig };
-        
-        if (variable === 'moulding') testConfig.mouldingMachines = i;
-        if (variable === 'inspection') testConfig.inspectionStations = i;
-        if (variable === 'packaging') testConfig.packagingMachines = i;
+  const runSensitivityAnalysis = useCallback(async () => {
+    setSensitivity(null);
 
-        const engine = new SimulationEngine(testConfig);
-        const res = engine.run();
-        
-        points.push({
-            label: `${i}`,
-            xValue: i,
-            cost: res.avgDegradationCostPerPart,
-            avgWait: res.waitStats[variable].avg,
-            variable: variable
-        });
-      }
-      
-      setSensitivityData(points);
-      
-      // Also update the main stats to the current config run just so the dashboard isn't empty
-      const currentRunEngine = new SimulationEngine(config);
-      const currentResults = currentRunEngine.run();
-      setStats(currentResults);
-      prevStatsRef.current = currentResults;
-      
-      setLoading(false);
-    }, 100);
+    // Temporarily set replications to 5 at most for sensitivity speed if user has set high reps
+    const sensitivityConfig = { ...config, replications: Math.min(config.replications, 5), trace: false, precision: undefined };
+    const testConfigs = sweepConfigs(sensitivityConfig, sweep);
+
+    // The current config runs alongside the sweep so the dashboard matches it
+    const runs = await inBackground('Sweep point', (pool, onProgress) =>
+      pool.run([...testConfigs, config], (_done, _total, finished) =>
+        onProgress(finished.slice(0, testConfigs.length).filter(Boolean).length, testConfigs.length)));
+    if (!runs) return;
+
+    setSensitivity(sweepResult(sweep, runs));
+
+    const currentResults = runs[runs.length - 1];
+    setStats(currentResults);
+    prevStatsRef.current = currentResults;
+  }, [config, sweep]);
+
+  // Benchmark mode: times a full run (all replications) without touching results or history
+  const runBenchmark = useCallback(async () => {
+    const result = await inBackground('Benchmark run', pool => pool.benchmark(config));
+    if (result) setBenchmark(result);
   }, [config]);
 
   const handleInputChange = (field: keyof SimulationConfig, value: number) => {
     setConfig((prev) => ({ ...prev, [field]: value }));
   };
 
+  const handleLineChange = (line: ProductionLine) => {
+    setConfig((prev) => ({ ...prev, line, processTimes: syncProcessTimes(prev.processTimes, line) }));
+  };
+
+  const handleMixChange = (productMix: Record<ProductType, number>) => {
+    setConfig((prev) => ({ ...prev, productMix }));
+  };
+
+  const handlePriorityChange = (productPriority: Record<ProductType, number>) => {
+    setConfig((prev) => ({ ...prev, productPriority }));
+  };
+
+  const handleTimesChange = (processTimes: ProcessTimeTable) => {
+    setConfig((prev) => ({ ...prev, processTimes }));
+  };
+
   return (
     <Layout onHelpClick={() => setShowIntro(true)}>
       <IntroModal isOpen={showIntro} onClose={() => setShowIntro(false)} />
@@ -202,9 +303,18 @@ const App: React.FC = () => {
             </h2>
             <div className="flex flex-wrap gap-2">
                  <button 
-                    onClick={() => runSensitivityAnalysis('inspection')}
+                    onClick={runBenchmark}
+                    className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+                    disabled={loading || configProblems.length > 0}
+                    title="Time the engine on the current configuration"
+                 >
+                    <Gauge className="w-4 h-4" />
+                    Benchmark
+                 </button>
+                 <button 
+                    onClick={runSensitivityAnalysis}
                     className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
-                    disabled={loading}
+                    disabled={loading || configProblems.length > 0 || sweepProblems.length > 0}
                  >
                     <TrendingUp className="w-4 h-4" />
                     Analyze Sensitivity
@@ -212,67 +322,73 @@ const App: React.FC = () => {
                  <button 
                     onClick={runSimulation}
                     className="flex items-center gap-2 px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors shadow-sm font-medium"
-                    disabled={loading}
+                    disabled={loading || configProblems.length > 0}
                  >
                     {loading ? "Running..." : <><Play className="w-4 h-4" /> Run Simulation</>}
                  </button>
             </div>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-7 gap-6">
-            {/* Input Group */}
-            <div className="space-y-2 lg:col-span-2">
-                <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide flex items-center justify-between">
-                    <span>Moulding Machines</span>
-                    <span className="font-bold text-red-600">{config.mouldingMachines}</span>
-                </label>
-                <input 
-                    type="range" min="1" max="10" 
-                    value={config.mouldingMachines} 
-                    onChange={(e) => handleInputChange('mouldingMachines', parseInt(e.target.value))}
-                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-red-600"
-                />
+        {progress && (
+            <div className="mb-6 flex items-center gap-3 text-xs text-gray-600">
+                <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-red-600 transition-all duration-200" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+                </div>
+                <span className="whitespace-nowrap">{progress.label} {Math.min(progress.done + 1, progress.total)} of {progress.total}</span>
+                <button
+                    onClick={cancelRun}
+                    className="flex items-center gap-1 px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                    <X className="w-3 h-3" /> Cancel
+                </button>
             </div>
-
-            <div className="space-y-2 lg:col-span-2">
-                <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide flex items-center justify-between">
-                    <span>Inspection Stations</span>
-                    <span className="font-bold text-red-600">{config.inspectionStations}</span>
-                </label>
-                <input 
-                    type="range" min="1" max="10" 
-                    value={config.inspectionStations} 
-                    onChange={(e) => handleInputChange('inspectionStations', parseInt(e.target.value))}
-                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-red-600"
-                />
+        )}
+        {runError && (
+            <div className="mb-6 flex items-center gap-2 text-xs text-red-700 bg-red-50 border border-red-100 rounded-lg p-3">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>Run failed: {runError}</span>
             </div>
+        )}
 
-            <div className="space-y-2 lg:col-span-2">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-7 gap-6">
+            {/* Input Group: one capacity slider per stage */}
+            {config.line.stages.map(stage => (
+            <div key={stage.id} className="space-y-2 lg:col-span-2">
                 <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide flex items-center justify-between">
-                    <span>Packaging Machines</span>
-                    <span className="font-bold text-red-600">{config.packagingMachines}</span>
+                    <span>{stage.name} {stage.kind === 'station' ? 'Stations' : 'Machines'}</span>
+                    <span className="font-bold text-red-600">{stage.capacity}</span>
                 </label>
                 <input 
                     type="range" min="1" max="10" 
-                    value={config.packagingMachines} 
-                    onChange={(e) => handleInputChange('packagingMachines', parseInt(e.target.value))}
+                    value={stage.capacity} 
+                    onChange={(e) => handleLineChange(withStageCapacity(config.line, stage.id, parseInt(e.target.value)))}
                     className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-red-600"
                 />
             </div>
+            ))}
 
              <div className="space-y-2 lg:col-span-1">
                 <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide flex items-center">
                     Arrival Mean
-                    <InfoTooltip text="Average minutes between orders." />
+                    <InfoTooltip text="Average minutes between orders. The distribution below keeps its shape when the mean changes." />
                 </label>
                 <div className="bg-white border border-gray-300 rounded-lg overflow-hidden">
                     <input 
                         type="number" 
-                        value={config.arrivalIntervalMean} 
-                        onChange={(e) => handleInputChange('arrivalIntervalMean', parseFloat(e.target.value))}
+                        value={Number(distributionMean(config.arrivalInterval).toFixed(2))} 
+                        onChange={(e) => {
+                            const mean = parseFloat(e.target.value);
+                            if (mean > 0) setConfig((prev) => ({ ...prev, arrivalInterval: scaleToMean(prev.arrivalInterval, mean) }));
+                        }}
                         className="w-full px-3 py-1.5 text-sm focus:outline-none bg-white text-gray-900"
                     />
                 </div>
+                <div className="text-[10px]">
+                    <DistributionEditor
+                        value={config.arrivalInterval}
+                        onChange={(arrivalInterval) => setConfig((prev) => ({ ...prev, arrivalInterval }))}
+                    />
+                </div>
             </div>
 
             {/* Row 2 */}
@@ -289,7 +405,23 @@ const App: React.FC = () => {
                         className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
                     />
                  </div>
-                 <div className="text-[10px] text-gray-400 text-right">Run {config.replications}x for 95% CI</div>
+                 <div className="flex items-center justify-end gap-1 text-[10px] text-gray-400">
+                    Run {config.replications}x for a
+                    <select
+                        value={config.confidenceLevel ?? DEFAULT_CONFIDENCE_LEVEL}
+                        onChange={(e) => setConfig((prev) => ({ ...prev, confidenceLevel: parseFloat(e.target.value) as ConfidenceLevel }))}
+                        className="px-1 py-0.5 border border-gray-300 rounded focus:outline-none bg-white text-gray-900"
+                    >
+                        {CONFIDENCE_LEVELS.map(level => <option key={level} value={level}>{Math.round(level * 100)}%</option>)}
+                    </select>
+                    CI
+                    <InfoTooltip text="Intervals use Student-t critical values, so they stay honest with only a few replications. Higher levels give wider intervals." />
+                 </div>
+                 <PrecisionTargetEditor
+                    target={config.precision}
+                    replications={config.replications}
+                    onChange={(precision) => setConfig((prev) => ({ ...prev, precision }))}
+                 />
             </div>
 
             <div className="space-y-2 lg:col-span-2">
@@ -322,22 +454,116 @@ const App: React.FC = () => {
                     />
                 </div>
             </div>
+
+            <div className="space-y-2 lg:col-span-1">
+                <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide flex items-center">
+                    Horizon (min)
+                    <InfoTooltip text="Simulated time. Time 0 is Monday 00:00 for shift calendars and arrival profiles." />
+                </label>
+                <div className="bg-white border border-gray-300 rounded-lg overflow-hidden">
+                    <input 
+                        type="number" min="1"
+                        value={config.duration} 
+                        onChange={(e) => {
+                            const duration = parseFloat(e.target.value);
+                            if (duration > 0) handleInputChange('duration', duration);
+                        }}
+                        className="w-full px-3 py-1.5 text-sm focus:outline-none bg-white text-gray-900"
+                    />
+                </div>
+                <div className="flex gap-1 text-[10px]">
+                    {HORIZON_PRESETS.map(p => (
+                        <button
+                            key={p.label}
+                            onClick={() => handleInputChange('duration', p.minutes)}
+                            className={`px-1.5 py-0.5 rounded border ${config.duration === p.minutes ? 'border-red-300 bg-red-50 text-red-700' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                        >
+                            {p.label}
+                        </button>
+                    ))}
+                </div>
+                <label className="flex items-center gap-2 text-[10px] text-gray-500">
+                    Warm-up
+                    <input
+                        type="number" min="0"
+                        value={config.warmUp}
+                        onChange={(e) => handleInputChange('warmUp', Math.max(0, parseFloat(e.target.value) || 0))}
+                        className="w-16 px-1 py-0.5 border border-gray-300 rounded focus:outline-none bg-white text-gray-900"
+                    />
+                    min
+                    <InfoTooltip text="Initial period discarded from every KPI so that the empty line at time 0 doesn't bias the results. Use the Welch plot to choose it." />
+                </label>
+                <label className="flex items-center gap-2 text-[10px] text-gray-500">
+                    <input
+                        type="checkbox"
+                        checked={!!config.trace}
+                        onChange={(e) => setConfig((prev) => ({ ...prev, trace: e.target.checked || undefined }))}
+                        className="accent-red-600"
+                    />
+                    Record event trace
+                    <InfoTooltip text="Keeps every event and job of the run for download as CSV or JSON Lines. Slower and memory-hungry on long horizons." />
+                </label>
+            </div>
         </div>
+
+        <LineEditor line={config.line} onChange={handleLineChange} />
+
+        <ReliabilityEditor line={config.line} onChange={handleLineChange} />
+        <ChangeoverEditor line={config.line} onChange={handleLineChange} />
+        <QualityEditor line={config.line} onChange={handleLineChange} />
+        <BatchEditor line={config.line} onChange={handleLineChange} />
+        <OperatorEditor line={config.line} onChange={handleLineChange} />
+        <DueDateEditor policy={config.dueDates} onChange={(dueDates) => setConfig((prev) => ({ ...prev, dueDates }))} />
+
+        <CalendarEditor
+            line={config.line}
+            arrivalProfile={config.arrivalProfile}
+            onLineChange={handleLineChange}
+            onProfileChange={(arrivalProfile) => setConfig((prev) => ({ ...prev, arrivalProfile }))}
+        />
+
+        <ProductTable
+            line={config.line}
+            productMix={config.productMix}
+            productPriority={config.productPriority}
+            processTimes={config.processTimes}
+            onMixChange={handleMixChange}
+            onPriorityChange={handlePriorityChange}
+            onTimesChange={handleTimesChange}
+        />
+
+        <SweepEditor config={config} sweep={sweep} onChange={setSweep} />
+
+        {benchmark && (
+            <div className="mt-4 flex items-center gap-2 text-xs text-gray-600 bg-gray-50 border border-gray-100 rounded-lg p-3">
+                <Gauge className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                <span>
+                    Benchmark: <span className="font-semibold">{benchmark.events.toLocaleString()}</span> events
+                    over {benchmark.replications} replication{benchmark.replications > 1 ? 's' : ''} in {benchmark.elapsedMs.toFixed(0)} ms
+                    = <span className="font-semibold">{Math.round(benchmark.eventsPerSecond).toLocaleString()}</span> events/s
+                </span>
+            </div>
+        )}
+
+        {configProblems.length > 0 && (
+            <div className="mt-4 flex items-start gap-2 text-xs text-red-700 bg-red-50 border border-red-100 rounded-lg p-3">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>{configProblems.join('. ')}.</span>
+            </div>
+        )}
       </div>
 
-      <ProcessDiagram 
-        mouldingMachines={config.mouldingMachines}
-        inspectionStations={config.inspectionStations}
-        packagingMachines={config.packagingMachines}
-      />
+      <ProcessDiagram config={config} stats={stats} />
 
       <Dashboard 
         stats={stats} 
-        sensitivityData={sensitivityData} 
+        sensitivity={sensitivity}
         loading={loading} 
         history={history}
         replications={config.replications}
         aiFeedback={aiFeedback}
+        line={config.line}
+        warmUp={config.warmUp}
       />
     </Layout>
   );
@@ -0,0 +1,44 @@
+import { BatchPolicy, Job, ProductType } from "../types";
+import { DispatchQueue } from "./dispatching";
+
+// Queue of a batching stage. Parts are kept in arrival order and leave in
+// batches; a group is ready once it reaches the minimum size or its oldest part
+// has waited the maximum time.
+export class BatchQueue implements DispatchQueue {
+  private jobs: Job[] = [];
+  private policy: BatchPolicy;
+  private entryTime: (job: Job) => number;
+
+  constructor(policy: BatchPolicy, entryTime: (job: Job) => number) {
+    this.policy = policy;
+    this.entryTime = entryTime;
+  }
+
+  get length() { return this.jobs.length; }
+  push(job: Job) { this.jobs.push(job); }
+  pop() { return this.jobs.shift(); }
+  toArray() { return this.jobs.slice(); }
+
+  // Removes and returns the next ready batch at time `now`, if any
+  take(now: number): Job[] | undefined {
+    // Groups in order of their oldest part (a single group unless batching by product)
+    const groups = new Map<ProductType | 'all', Job[]>();
+    this.jobs.forEach(job => {
+      const key = this.policy.sameProduct ? job.productType : 'all';
+      const group = groups.get(key);
+      if (group) group.push(job);
+      else groups.set(key, [job]);
+    });
+    for (const group of groups.values()) {
+      // Tolerance so that a timeout event scheduled at entry + maxWait always finds its group ready
+      const timedOut = now - this.entryTime(group[0]) >= this.policy.maxWait - 1e-9;
+      if (group.length >= this.policy.minSize || timedOut) {
+        const batch = group.slice(0, this.policy.maxSize);
+        const taken = new Set(batch);
+        this.jobs = this.jobs.filter(j => !taken.has(j));
+        return batch;
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,155 @@
+import { ShiftCalendar, ArrivalRateProfile } from "../types";
+
+// Simulation time 0 is Monday 00:00; calendars repeat every week.
+export const MINUTES_PER_HOUR = 60;
+export const MINUTES_PER_DAY = 1440;
+export const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+export const DAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+interface Window {
+  start: number;
+  end: number;
+}
+
+// Working windows of the week, sorted and merged, in minutes from Monday 00:00
+const weeklyWindows = (cal: ShiftCalendar): Window[] => {
+  const raw: Window[] = [];
+  cal.workingDays.forEach((works, day) => {
+    if (!works) return;
+    cal.shifts.forEach(s => raw.push({ start: day * MINUTES_PER_DAY + s.start, end: day * MINUTES_PER_DAY + s.end }));
+  });
+  raw.sort((a, b) => a.start - b.start);
+  const merged: Window[] = [];
+  raw.forEach(w => {
+    const last = merged[merged.length - 1];
+    if (last && w.start <= last.end) last.end = Math.max(last.end, w.end);
+    else merged.push({ ...w });
+  });
+  return merged;
+};
+
+const weekOffset = (t: number) => ((t % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+
+// Precomputed view of a calendar for fast lookups during a run
+export class CalendarSchedule {
+  private windows: Window[];
+
+  constructor(cal: ShiftCalendar) {
+    this.windows = weeklyWindows(cal);
+  }
+
+  isWorking(t: number): boolean {
+    const offset = weekOffset(t);
+    return this.windows.some(w => offset >= w.start && offset < w.end);
+  }
+
+  // Time of the next switch between working and not working after t (Infinity if none)
+  nextChange(t: number): number {
+    if (this.windows.length === 0) return Infinity;
+    const working = this.isWorking(t);
+    const weekStart = t - weekOffset(t);
+    // Two weeks of boundaries are enough to find a change that wraps around the week
+    for (let week = 0; week < 2; week++) {
+      for (const w of this.windows) {
+        for (const b of [w.start, w.end]) {
+          const abs = weekStart + week * MINUTES_PER_WEEK + b;
+          if (abs > t && this.isWorking(abs) !== working) return abs;
+        }
+      }
+    }
+    return Infinity;
+  }
+
+  // Working minutes in [from, to)
+  workingMinutes(from: number, to: number): number {
+    let total = 0;
+    const firstWeek = Math.floor(from / MINUTES_PER_WEEK);
+    const lastWeek = Math.floor(to / MINUTES_PER_WEEK);
+    for (let week = firstWeek; week <= lastWeek; week++) {
+      const base = week * MINUTES_PER_WEEK;
+      this.windows.forEach(w => {
+        total += Math.max(0, Math.min(to, base + w.end) - Math.max(from, base + w.start));
+      });
+    }
+    return total;
+  }
+}
+
+// Arrival-rate multiplier at time t
+export const rateMultiplier = (profile: ArrivalRateProfile, t: number): number => {
+  const offset = weekOffset(t);
+  const day = Math.floor(offset / MINUTES_PER_DAY);
+  const hour = Math.floor((offset % MINUTES_PER_DAY) / MINUTES_PER_HOUR);
+  return profile.hourly[hour] * profile.daily[day];
+};
+
+// Non-homogeneous arrivals by time-scaling: an inter-arrival time `x` sampled
+// at the base rate is consumed at the current multiplier hour by hour, so with
+// exponential intervals this is an exact piecewise-constant Poisson process.
+export const advanceByRate = (profile: ArrivalRateProfile, t: number, x: number): number => {
+  let time = t;
+  let left = x;
+  // Validation guarantees a positive rate somewhere in the week, so this terminates
+  for (;;) {
+    const m = rateMultiplier(profile, time);
+    const hourEnd = (Math.floor(time / MINUTES_PER_HOUR) + 1) * MINUTES_PER_HOUR;
+    const capacity = m * (hourEnd - time);
+    if (m > 0 && capacity >= left) return time + left / m;
+    left -= capacity;
+    time = hourEnd;
+  }
+};
+
+// "06:00-10:00, 10:30-14:30" <-> shift windows
+export const formatClock = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(Math.round(minutes % 60)).padStart(2, '0')}`;
+
+export const formatShifts = (shifts: ShiftCalendar['shifts']): string =>
+  shifts.map(s => `${formatClock(s.start)}-${formatClock(s.end)}`).join(', ');
+
+export const parseShifts = (text: string): ShiftCalendar['shifts'] | null => {
+  const parseClock = (c: string) => {
+    const match = c.trim().match(/^(\d{1,2}):(\d{2})$/);
+    return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : NaN;
+  };
+  const shifts = text.split(',').map(p => p.trim()).filter(Boolean).map(p => {
+    const [a, b] = p.split('-');
+    return { start: parseClock(a ?? ''), end: parseClock(b ?? '') };
+  });
+  return shifts.every(s => !isNaN(s.start) && !isNaN(s.end)) ? shifts : null;
+};
+
+export const validateCalendar = (cal: ShiftCalendar, label: string): string[] => {
+  const problems: string[] = [];
+  if (cal.workingDays.length !== 7) problems.push(`${label}: needs 7 working-day flags`);
+  cal.shifts.forEach(s => {
+    if (!(s.start >= 0 && s.end <= MINUTES_PER_DAY && s.start < s.end)) {
+      problems.push(`${label}: shift ${formatClock(s.start)}-${formatClock(s.end)} must lie within one day (split overnight shifts at midnight)`);
+    }
+  });
+  if (!cal.workingDays.some(Boolean) || cal.shifts.length === 0) problems.push(`${label}: never works`);
+  return problems;
+};
+
+export const validateArrivalProfile = (profile: ArrivalRateProfile): string[] => {
+  const problems: string[] = [];
+  if (profile.hourly.length !== 24 || profile.daily.length !== 7) problems.push('Arrival profile needs 24 hourly and 7 daily multipliers');
+  if ([...profile.hourly, ...profile.daily].some(v => !(v >= 0))) problems.push('Arrival profile multipliers cannot be negative');
+  const anyPositive = profile.daily.some(d => d > 0) && profile.hourly.some(h => h > 0);
+  if (!anyPositive) problems.push('Arrival profile never lets orders arrive');
+  return problems;
+};
+
+const WEEKDAYS = [true, true, true, true, true, false, false];
+
+export const CALENDAR_PRESETS: { label: string; calendar: ShiftCalendar }[] = [
+  { label: 'Day shift Mon-Fri', calendar: { workingDays: WEEKDAYS, shifts: [{ start: 360, end: 600 }, { start: 630, end: 870 }] } },
+  { label: 'Two shifts Mon-Fri', calendar: { workingDays: WEEKDAYS, shifts: [{ start: 360, end: 600 }, { start: 630, end: 870 }, { start: 870, end: 1110 }, { start: 1140, end: 1380 }] } },
+  { label: '24/5 (weekend off)', calendar: { workingDays: WEEKDAYS, shifts: [{ start: 0, end: MINUTES_PER_DAY }] } },
+];
+
+// Orders mostly come in during office hours on weekdays
+export const OFFICE_HOURS_PROFILE: ArrivalRateProfile = {
+  hourly: Array.from({ length: 24 }, (_, h) => (h >= 7 && h < 18 ? 1.8 : 0.3)),
+  daily: [1, 1, 1, 1, 1, 0.2, 0],
+};
@@ -0,0 +1,132 @@
+import { DispatchRule, Job, ProductType } from "../types";
+import { BinaryHeap, FifoQueue } from "./eventCalendar";
+
+export const DISPATCH_RULES: Record<DispatchRule, { label: string; description: string }> = {
+  fifo: { label: 'FIFO', description: 'First in, first out' },
+  lifo: { label: 'LIFO', description: 'Last in, first out' },
+  spt: { label: 'SPT', description: 'Shortest processing time at this stage first' },
+  edd: { label: 'EDD', description: 'Earliest due date first' },
+  priority: { label: 'Priority', description: 'Product priority first (1 = most urgent)' },
+  cr: { label: 'CR', description: 'Smallest critical ratio (time to due date / remaining work) first' },
+  sst: { label: 'SST', description: 'Shortest setup time first: favours the product the machine is already set up for' },
+};
+
+// What the rules need to know about a job beyond the job itself
+export interface DispatchContext {
+  processTime: (job: Job) => number; // Sampled time of the job's pending visit
+  remainingWork: (job: Job) => number; // Expected work content still ahead, incl. the pending visit
+  productPriority: Record<ProductType, number>;
+  setupTime: (job: Job, previous?: ProductType) => number; // Changeover before the pending visit
+}
+
+export interface DispatchQueue {
+  readonly length: number;
+  push(job: Job): void;
+  // Next job to start at time `now` on a machine last set up for `previous`
+  pop(now: number, previous?: ProductType): Job | undefined;
+  toArray(): Job[]; // Queue contents (unordered for heap-based rules)
+}
+
+class FifoDispatchQueue implements DispatchQueue {
+  private queue = new FifoQueue<Job>();
+  get length() { return this.queue.length; }
+  push(job: Job) { this.queue.push(job); }
+  pop() { return this.queue.shift(); }
+  toArray() { return this.queue.toArray(); }
+}
+
+class LifoDispatchQueue implements DispatchQueue {
+  private stack: Job[] = [];
+  get length() { return this.stack.length; }
+  push(job: Job) { this.stack.push(job); }
+  pop() { return this.stack.pop(); }
+  toArray() { return this.stack.slice(); }
+}
+
+// Static sort key, ties broken by arrival in the queue
+class KeyedDispatchQueue implements DispatchQueue {
+  private heap: BinaryHeap<{ key: number; seq: number; job: Job }>;
+  private seq = 0;
+  private key: (job: Job) => number;
+
+  constructor(key: (job: Job) => number) {
+    this.key = key;
+    this.heap = new BinaryHeap((a, b) => a.key - b.key || a.seq - b.seq);
+  }
+
+  get length() { return this.heap.size; }
+  push(job: Job) { this.heap.push({ key: this.key(job), seq: this.seq++, job }); }
+  pop() { return this.heap.pop()?.job; }
+  toArray() { return this.heap.toArray().map(e => e.job); }
+}
+
+// Critical ratio changes with the clock, so it is evaluated at dispatch time
+class CriticalRatioQueue implements DispatchQueue {
+  private jobs: Job[] = [];
+  private context: DispatchContext;
+
+  constructor(context: DispatchContext) {
+    this.context = context;
+  }
+
+  get length() { return this.jobs.length; }
+  push(job: Job) { this.jobs.push(job); }
+
+  pop(now: number) {
+    if (this.jobs.length === 0) return undefined;
+    const ratio = (job: Job) => (job.dueDate - now) / Math.max(this.context.remainingWork(job), 1e-9);
+    let best = 0;
+    let bestRatio = ratio(this.jobs[0]);
+    for (let i = 1; i < this.jobs.length; i++) {
+      const r = ratio(this.jobs[i]);
+      if (r < bestRatio) {
+        best = i;
+        bestRatio = r;
+      }
+    }
+    return this.jobs.splice(best, 1)[0];
+  }
+
+  toArray() { return this.jobs.slice(); }
+}
+
+// Setup time depends on the machine that asks, so it is evaluated at dispatch time (FIFO among ties)
+class ShortestSetupQueue implements DispatchQueue {
+  private jobs: Job[] = [];
+  private context: DispatchContext;
+
+  constructor(context: DispatchContext) {
+    this.context = context;
+  }
+
+  get length() { return this.jobs.length; }
+  push(job: Job) { this.jobs.push(job); }
+
+  pop(_now: number, previous?: ProductType) {
+    if (this.jobs.length === 0) return undefined;
+    let best = 0;
+    let bestSetup = this.context.setupTime(this.jobs[0], previous);
+    for (let i = 1; i < this.jobs.length && bestSetup > 0; i++) {
+      const setup = this.context.setupTime(this.jobs[i], previous);
+      if (setup < bestSetup) {
+        best = i;
+        bestSetup = setup;
+      }
+    }
+    return this.jobs.splice(best, 1)[0];
+  }
+
+  toArray() { return this.jobs.slice(); }
+}
+
+export const createDispatchQueue = (rule: DispatchRule, context: DispatchContext): DispatchQueue => {
+  switch (rule) {
+    case 'fifo': return new FifoDispatchQueue();
+    case 'lifo': return new LifoDispatchQueue();
+    case 'spt': return new KeyedDispatchQueue(job => context.processTime(job));
+    case 'edd': return new KeyedDispatchQueue(job => job.dueDate);
+    case 'priority': return new KeyedDispatchQueue(job => context.productPriority[job.productType] ?? Infinity);
+    case 'cr': return new CriticalRatioQueue(context);
+    case 'sst': return new ShortestSetupQueue(context);
+  }
+};
@@ -0,0 +1,235 @@
+import { Distribution, DistributionKind } from "../types";
+
+// Anything that yields uniform numbers in [0, 1)
+export interface UniformSource {
+  next(): number;
+}
+
+interface KindInfo {
+  label: string;
+  params: { key: string; label: string }[]; // Numeric parameters, in editor order
+}
+
+export const DISTRIBUTION_KINDS: Record<DistributionKind, KindInfo> = {
+  exponential: { label: 'Exponential', params: [{ key: 'mean', label: 'Mean' }] },
+  deterministic: { label: 'Deterministic', params: [{ key: 'value', label: 'Value' }] },
+  uniform: { label: 'Uniform', params: [{ key: 'min', label: 'Min' }, { key: 'max', label: 'Max' }] },
+  triangular: { label: 'Triangular', params: [{ key: 'min', label: 'Min' }, { key: 'mode', label: 'Mode' }, { key: 'max', label: 'Max' }] },
+  normal: { label: 'Normal (truncated)', params: [{ key: 'mean', label: 'Mean' }, { key: 'stdDev', label: 'Std Dev' }, { key: 'min', label: 'Min' }, { key: 'max', label: 'Max' }] },
+  lognormal: { label: 'Lognormal', params: [{ key: 'mean', label: 'Mean' }, { key: 'stdDev', label: 'Std Dev' }] },
+  gamma: { label: 'Gamma', params: [{ key: 'shape', label: 'Shape' }, { key: 'scale', label: 'Scale' }] },
+  erlang: { label: 'Erlang', params: [{ key: 'k', label: 'k' }, { key: 'mean', label: 'Mean' }] },
+  weibull: { label: 'Weibull', params: [{ key: 'shape', label: 'Shape' }, { key: 'scale', label: 'Scale' }] },
+  empirical: { label: 'Empirical', params: [] },
+};
+
+export const exponential = (mean: number): Distribution => ({ kind: 'exponential', mean });
+
+// Lanczos approximation of the gamma function (needed for the Weibull mean)
+const gammaFn = (z: number): number => {
+  const g = 7;
+  const c = [0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7];
+  if (z < 0.5) return Math.PI / (Math.sin(Math.PI * z) * gammaFn(1 - z));
+  z -= 1;
+  let x = c[0];
+  for (let i = 1; i < g + 2; i++) x += c[i] / (z + i);
+  const t = z + g + 0.5;
+  return Math.sqrt(2 * Math.PI) * Math.pow(t, z + 0.5) * Math.exp(-t) * x;
+};
+
+const standardNormal = (rng: UniformSource): number => {
+  // Box-Muller; 1 - u keeps the log argument away from zero
+  const u1 = 1 - rng.next();
+  const u2 = rng.next();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+// Marsaglia-Tsang for shape >= 1, boosted for shape < 1
+const standardGamma = (shape: number, rng: UniformSource): number => {
+  if (shape < 1) return standardGamma(shape + 1, rng) * Math.pow(1 - rng.next(), 1 / shape);
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = standardNormal(rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = 1 - rng.next();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+};
+
+export const sampleDistribution = (dist: Distribution, rng: UniformSource): number => {
+  switch (dist.kind) {
+    case 'exponential':
+      return -Math.log(1 - rng.next()) * dist.mean;
+    case 'deterministic':
+      return dist.value;
+    case 'uniform':
+      return dist.min + rng.next() * (dist.max - dist.min);
+    case 'triangular': {
+      const { min, mode, max } = dist;
+      const u = rng.next();
+      const range = max - min;
+      if (range <= 0) return min;
+      const split = (mode - min) / range;
+      return u < split
+        ? min + Math.sqrt(u * range * (mode - min))
+        : max - Math.sqrt((1 - u) * range * (max - mode));
+    }
+    case 'normal': {
+      const lo = dist.min ?? -Infinity;
+      const hi = dist.max ?? Infinity;
+      // Rejection sampling; fall back to clamping if the window is far in the tail
+      for (let i = 0; i < 100; i++) {
+        const x = dist.mean + dist.stdDev * standardNormal(rng);
+        if (x >= lo && x <= hi) return x;
+      }
+      return Math.min(hi, Math.max(lo, dist.mean));
+    }
+    case 'lognormal': {
+      if (dist.mean <= 0) return 0;
+      const sigma2 = Math.log(1 + (dist.stdDev * dist.stdDev) / (dist.mean * dist.mean));
+      const mu = Math.log(dist.mean) - sigma2 / 2;
+      return Math.exp(mu + Math.sqrt(sigma2) * standardNormal(rng));
+    }
+    case 'gamma':
+      return standardGamma(dist.shape, rng) * dist.scale;
+    case 'erlang':
+      return standardGamma(Math.max(1, Math.round(dist.k)), rng) * dist.mean / Math.max(1, Math.round(dist.k));
+    case 'weibull':
+      return dist.scale * Math.pow(-Math.log(1 - rng.next()), 1 / dist.shape);
+    case 'empirical': {
+      const total = dist.weights.reduce((a, b) => a + b, 0);
+      let r = rng.next() * total;
+      for (let i = 0; i < dist.values.length; i++) {
+        r -= dist.weights[i];
+        if (r < 0) return dist.values[i];
+      }
+      return dist.values[dist.values.length - 1];
+    }
+  }
+};
+
+// Expected value (for truncated normals this is the untruncated mean)
+export const distributionMean = (dist: Distribution): number => {
+  switch (dist.kind) {
+    case 'exponential': return dist.mean;
+    case 'deterministic': return dist.value;
+    case 'uniform': return (dist.min + dist.max) / 2;
+    case 'triangular': return (dist.min + dist.mode + dist.max) / 3;
+    case 'normal': return dist.mean;
+    case 'lognormal': return dist.mean;
+    case 'gamma': return dist.shape * dist.scale;
+    case 'erlang': return dist.mean;
+    case 'weibull': return dist.scale * gammaFn(1 + 1 / dist.shape);
+    case 'empirical': {
+      const total = dist.weights.reduce((a, b) => a + b, 0);
+      return total === 0 ? 0 : dist.values.reduce((sum, v, i) => sum + v * dist.weights[i], 0) / total;
+    }
+  }
+};
+
+// A reasonable distribution of the given kind with the given mean (editor defaults)
+export const defaultDistribution = (kind: DistributionKind, mean: number): Distribution => {
+  switch (kind) {
+    case 'exponential': return { kind, mean };
+    case 'deterministic': return { kind, value: mean };
+    case 'uniform': return { kind, min: 0.5 * mean, max: 1.5 * mean };
+    case 'triangular': return { kind, min: 0.8 * mean, mode: mean, max: 1.2 * mean };
+    case 'normal': return { kind, mean, stdDev: 0.1 * mean, min: 0 };
+    case 'lognormal': return { kind, mean, stdDev: 0.25 * mean };
+    case 'gamma': return { kind, shape: 2, scale: mean / 2 };
+    case 'erlang': return { kind, k: 2, mean };
+    case 'weibull': return { kind, shape: 2, scale: mean / gammaFn(1.5) };
+    case 'empirical': return { kind, values: [0.8 * mean, mean, 1.2 * mean], weights: [1, 2, 1] };
+  }
+};
+
+// Rescales location/scale parameters so the mean becomes `mean`, keeping the shape
+export const scaleToMean = (dist: Distribution, mean: number): Distribution => {
+  const current = distributionMean(dist);
+  if (!(current > 0)) return defaultDistribution(dist.kind, mean);
+  const f = mean / current;
+  switch (dist.kind) {
+    case 'exponential': return { ...dist, mean };
+    case 'deterministic': return { ...dist, value: mean };
+    case 'uniform': return { ...dist, min: dist.min * f, max: dist.max * f };
+    case 'triangular': return { ...dist, min: dist.min * f, mode: dist.mode * f, max: dist.max * f };
+    case 'normal': return {
+      ...dist, mean, stdDev: dist.stdDev * f,
+      min: dist.min === undefined ? undefined : dist.min * f,
+      max: dist.max === undefined ? undefined : dist.max * f,
+    };
+    case 'lognormal': return { ...dist, mean, stdDev: dist.stdDev * f };
+    case 'gamma': return { ...dist, scale: dist.scale * f };
+    case 'erlang': return { ...dist, mean };
+    case 'weibull': return { ...dist, scale: dist.scale * f };
+    case 'empirical': return { ...dist, values: dist.values.map(v => v * f) };
+  }
+};
+
+// Short label such as "Tri(8, 10, 12)"
+export const describeDistribution = (dist: Distribution): string => {
+  const n = (v: number) => Number(v.toFixed(2)).toString();
+  switch (dist.kind) {
+    case 'exponential': return `Exp(${n(dist.mean)})`;
+    case 'deterministic': return `Const(${n(dist.value)})`;
+    case 'uniform': return `U(${n(dist.min)}, ${n(dist.max)})`;
+    case 'triangular': return `Tri(${n(dist.min)}, ${n(dist.mode)}, ${n(dist.max)})`;
+    case 'normal': {
+      const bounds = dist.min !== undefined || dist.max !== undefined
+        ? ` in [${dist.min !== undefined ? n(dist.min) : '-∞'}, ${dist.max !== undefined ? n(dist.max) : '∞'}]`
+        : '';
+      return `N(${n(dist.mean)}, ${n(dist.stdDev)})${bounds}`;
+    }
+    case 'lognormal': return `LogN(${n(dist.mean)}, ${n(dist.stdDev)})`;
+    case 'gamma': return `Gamma(${n(dist.shape)}, ${n(dist.scale)})`;
+    case 'erlang': return `Erlang(${n(dist.k)}, ${n(dist.mean)})`;
+    case 'weibull': return `Weibull(${n(dist.shape)}, ${n(dist.scale)})`;
+    case 'empirical': return `Emp(${dist.values.map(n).join(', ')})`;
+  }
+};
+
+// Returns problems with the parameters (empty when the distribution can be sampled)
+export const validateDistribution = (dist: Distribution, label: string): string[] => {
+  const problems: string[] = [];
+  const nonNegative = (v: number | undefined, name: string) => {
+    if (v === undefined || !(v >= 0)) problems.push(`${label}: ${name} must be a non-negative number`);
+  };
+  const positive = (v: number, name: string) => {
+    if (!(v > 0)) problems.push(`${label}: ${name} must be positive`);
+  };
+  switch (dist.kind) {
+    case 'exponential': nonNegative(dist.mean, 'mean'); break;
+    case 'deterministic': nonNegative(dist.value, 'value'); break;
+    case 'uniform':
+      nonNegative(dist.min, 'min');
+      if (!(dist.max >= dist.min)) problems.push(`${label}: max must be at least min`);
+      break;
+    case 'triangular':
+      nonNegative(dist.min, 'min');
+      if (!(dist.min <= dist.mode && dist.mode <= dist.max)) problems.push(`${label}: needs min <= mode <= max`);
+      break;
+    case 'normal':
+      nonNegative(dist.stdDev, 'std dev');
+      if (dist.min !== undefined && dist.max !== undefined && !(dist.max >= dist.min)) problems.push(`${label}: max must be at least min`);
+      break;
+    case 'lognormal': nonNegative(dist.mean, 'mean'); nonNegative(dist.stdDev, 'std dev'); break;
+    case 'gamma': positive(dist.shape, 'shape'); nonNegative(dist.scale, 'scale'); break;
+    case 'erlang':
+      if (!(dist.k >= 1) || Math.round(dist.k) !== dist.k) problems.push(`${label}: k must be a whole number >= 1`);
+      nonNegative(dist.mean, 'mean');
+      break;
+    case 'weibull': positive(dist.shape, 'shape'); nonNegative(dist.scale, 'scale'); break;
+    case 'empirical':
+      if (dist.values.length === 0 || dist.values.length !== dist.weights.length) problems.push(`${label}: needs one weight per value`);
+      if (dist.weights.some(w => !(w >= 0)) || dist.weights.reduce((a, b) => a + b, 0) <= 0) problems.push(`${label}: weights must be non-negative with a positive total`);
+      break;
+  }
+  return problems;
+};
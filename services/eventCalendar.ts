@@ -0,0 +1,121 @@
+// Array-backed binary min-heap ordered by a comparator. Sifting moves a hole
+// instead of swapping, so a push or pop allocates nothing.
+export class BinaryHeap<T> {
+  private items: T[] = [];
+  private compare: (a: T, b: T) => number;
+
+  constructor(compare: (a: T, b: T) => number) {
+    this.compare = compare;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    let i = items.length;
+    items.push(item);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(item, items[parent]) >= 0) break;
+      items[i] = items[parent];
+      i = parent;
+    }
+    items[i] = item;
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+    const top = items[0];
+    const last = items.pop()!;
+    const n = items.length;
+    if (n > 0) {
+      let i = 0;
+      for (;;) {
+        let child = 2 * i + 1;
+        if (child >= n) break;
+        if (child + 1 < n && this.compare(items[child + 1], items[child]) < 0) child++;
+        if (this.compare(items[child], last) >= 0) break;
+        items[i] = items[child];
+        i = child;
+      }
+      items[i] = last;
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return this.items.slice();
+  }
+}
+
+export interface CalendarEntry<E> {
+  time: number;
+  priority: number;
+  seq: number;
+  event: E;
+}
+
+// Module-level so every calendar shares one monomorphic comparator
+const entryOrder = <E>(a: CalendarEntry<E>, b: CalendarEntry<E>) =>
+  a.time - b.time || a.priority - b.priority || a.seq - b.seq;
+
+// Future-event list. Events fire in time order; ties are broken by priority
+// (lower first) and then by insertion order, so runs are fully deterministic.
+export class EventCalendar<E> {
+  private heap = new BinaryHeap<CalendarEntry<E>>(entryOrder);
+  private nextSeq = 0;
+
+  get size(): number {
+    return this.heap.size;
+  }
+
+  schedule(time: number, priority: number, event: E): void {
+    this.heap.push({ time, priority, seq: this.nextSeq++, event });
+  }
+
+  peekTime(): number | undefined {
+    return this.heap.peek()?.time;
+  }
+
+  // The entry itself, so taking an event allocates nothing
+  pop(): CalendarEntry<E> | undefined {
+    return this.heap.pop();
+  }
+}
+
+// FIFO queue with O(1) amortized dequeue (Array.shift is O(n))
+export class FifoQueue<T> {
+  private items: T[] = [];
+  private head = 0;
+
+  get length(): number {
+    return this.items.length - this.head;
+  }
+
+  push(item: T): void {
+    this.items.push(item);
+  }
+
+  shift(): T | undefined {
+    if (this.head >= this.items.length) return undefined;
+    const item = this.items[this.head];
+    this.items[this.head++] = undefined as unknown as T;
+    // Compact once the consumed prefix dominates the array
+    if (this.head > 1024 && this.head * 2 > this.items.length) {
+      this.items = this.items.slice(this.head);
+      this.head = 0;
+    }
+    return item;
+  }
+
+  toArray(): T[] {
+    return this.items.slice(this.head);
+  }
+}
@@ -0,0 +1,201 @@
+import { ProductType, ProductionLine, StageDefinition, ProcessTimeTable, SimulationConfig, DueDatePolicy, PRODUCT_TYPES } from "../types";
+import { exponential, distributionMean, validateDistribution } from "./distributions";
+import { DISPATCH_RULES } from "./dispatching";
+import { validateCalendar, validateArrivalProfile } from "./calendar";
+import { CONFIDENCE_LEVELS, PILOT_REPLICATIONS } from "./statistics";
+
+// The classic 3-stage line: Moulding -> Inspection -> Packaging.
+// Parts cool down while waiting for inspection, hence the degradation risk.
+export const DEFAULT_PRODUCTION_LINE: ProductionLine = {
+  stages: [
+    { id: 'moulding', name: 'Moulding', capacity: 2, kind: 'machine' },
+    { id: 'inspection', name: 'Inspection', capacity: 2, kind: 'station', degradationRisk: true },
+    { id: 'packaging', name: 'Packaging', capacity: 1, kind: 'machine' },
+  ],
+  routings: {
+    [ProductType.TypeA]: ['moulding', 'inspection', 'packaging'],
+    [ProductType.TypeB]: ['moulding', 'inspection', 'packaging'],
+    [ProductType.TypeC]: ['moulding', 'inspection', 'packaging'],
+    [ProductType.TypeD]: ['moulding', 'inspection', 'packaging'],
+  },
+};
+
+// Uniform mix: every product type is equally likely
+export const DEFAULT_PRODUCT_MIX: Record<ProductType, number> = {
+  [ProductType.TypeA]: 1,
+  [ProductType.TypeB]: 1,
+  [ProductType.TypeC]: 1,
+  [ProductType.TypeD]: 1,
+};
+
+// Rank used by the priority dispatching rule (1 = most urgent)
+export const DEFAULT_PRODUCT_PRIORITY: Record<ProductType, number> = {
+  [ProductType.TypeA]: 1,
+  [ProductType.TypeB]: 2,
+  [ProductType.TypeC]: 3,
+  [ProductType.TypeD]: 4,
+};
+
+// Inspection takes 80% and packaging 60% of the moulding time
+export const DEFAULT_PROCESS_TIMES: ProcessTimeTable = {
+  [ProductType.TypeA]: { moulding: exponential(10), inspection: exponential(8), packaging: exponential(6) },
+  [ProductType.TypeB]: { moulding: exponential(15), inspection: exponential(12), packaging: exponential(9) },
+  [ProductType.TypeC]: { moulding: exponential(20), inspection: exponential(16), packaging: exponential(12) },
+  [ProductType.TypeD]: { moulding: exponential(12), inspection: exponential(9.6), packaging: exponential(7.2) },
+};
+
+// Due date = arrival + 3x the job's expected total work content (TWK rule)
+export const DEFAULT_DUE_DATE_POLICY: DueDatePolicy = { kind: 'twk', factor: 3 };
+
+// Mean time given to a product at a stage that has no entry yet
+export const DEFAULT_STAGE_TIME = 5;
+
+export const getStage = (line: ProductionLine, stageId: string): StageDefinition | undefined =>
+  line.stages.find(s => s.id === stageId);
+
+// Short machine label prefix, e.g. "M" for Moulding
+export const stageInitial = (stage: StageDefinition): string =>
+  stage.name.trim().charAt(0).toUpperCase() || '?';
+
+// Stage that drives degradation cost (used for defaults in charts and sweeps)
+export const getCostStage = (line: ProductionLine): StageDefinition | undefined =>
+  line.stages.find(s => s.degradationRisk) ?? line.stages[0];
+
+// Returns a copy of the line with one stage's capacity replaced
+export const withStageCapacity = (line: ProductionLine, stageId: string, capacity: number): ProductionLine => ({
+  ...line,
+  stages: line.stages.map(s => s.id === stageId ? { ...s, capacity } : s),
+});
+
+// Checks that every routing only references known stages.
+// Returns a list of human-readable problems (empty when valid).
+export const validateProductionLine = (line: ProductionLine): string[] => {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  line.stages.forEach(s => {
+    if (ids.has(s.id)) problems.push(`Duplicate stage id "${s.id}"`);
+    ids.add(s.id);
+    if (s.capacity < 1) problems.push(`Stage "${s.name}" needs at least one machine`);
+    if (s.bufferCapacity !== undefined && !(Number.isInteger(s.bufferCapacity) && s.bufferCapacity >= 0)) {
+      problems.push(`Stage "${s.name}" buffer capacity must be a whole number of jobs (0 or more)`);
+    }
+  });
+  PRODUCT_TYPES.forEach(p => {
+    const route = line.routings[p] ?? [];
+    if (route.length === 0) problems.push(`${p} has an empty routing`);
+    route.forEach(id => {
+      if (!ids.has(id)) problems.push(`${p} is routed through unknown stage "${id}"`);
+    });
+  });
+  return problems;
+};
+
+// Checks the parts of a config that the engine relies on: the line itself,
+// a usable product mix, a valid time distribution for every routed stage and
+// an arrival stream that actually moves the clock forward.
+export const validateSimulationConfig = (config: SimulationConfig): string[] => {
+  const problems = validateProductionLine(config.line);
+  if (!(config.warmUp >= 0 && config.warmUp < config.duration)) problems.push('Warm-up must be shorter than the horizon');
+  if (config.confidenceLevel !== undefined && !CONFIDENCE_LEVELS.includes(config.confidenceLevel)) problems.push('Confidence level must be 90%, 95% or 99%');
+  if (config.precision) {
+    const { tolerance, maxReplications } = config.precision;
+    if (!(tolerance > 0)) problems.push('Precision tolerance must be positive');
+    if (!(Number.isInteger(maxReplications) && maxReplications >= Math.max(PILOT_REPLICATIONS, config.replications))) {
+      problems.push(`Replication cap must be a whole number of at least ${Math.max(PILOT_REPLICATIONS, config.replications)}`);
+    }
+  }
+  problems.push(...validateDistribution(config.arrivalInterval, 'Arrival interval'));
+  if (!(distributionMean(config.arrivalInterval) > 0)) problems.push('Arrival interval must have a positive mean');
+  const weights = PRODUCT_TYPES.map(p => config.productMix[p] ?? 0);
+  if (weights.some(w => w < 0)) problems.push('Product mix weights cannot be negative');
+  if (weights.reduce((a, b) => a + b, 0) <= 0) problems.push('Product mix needs at least one positive weight');
+  if (config.arrivalProfile) problems.push(...validateArrivalProfile(config.arrivalProfile));
+  const dueDates = config.dueDates;
+  if (dueDates.kind === 'fixed' && !(dueDates.allowance >= 0)) problems.push('Due date allowance cannot be negative');
+  if (dueDates.kind === 'twk' && !(dueDates.factor > 0)) problems.push('Due date TWK factor must be positive');
+  if (dueDates.kind === 'product' && PRODUCT_TYPES.some(p => !(dueDates.leadTime[p] >= 0))) problems.push('Quoted lead times cannot be negative');
+  config.line.stages.forEach(stage => {
+    if (stage.calendar) problems.push(...validateCalendar(stage.calendar, `${stage.name} calendar`));
+    if (stage.changeovers) {
+      const times = PRODUCT_TYPES.flatMap(from => PRODUCT_TYPES.map(to => stage.changeovers![from]?.[to] ?? 0));
+      if (times.some(t => !(t >= 0 && t < Infinity))) problems.push(`${stage.name} changeover times must be finite and non-negative`);
+    }
+    const batching = stage.batching;
+    if (batching) {
+      if (!(Number.isInteger(batching.minSize) && batching.minSize >= 1)) problems.push(`${stage.name} minimum batch size must be a whole number of at least 1`);
+      if (!(Number.isInteger(batching.maxSize) && batching.maxSize >= batching.minSize)) problems.push(`${stage.name} maximum batch size must be a whole number no smaller than the minimum`);
+      if (!(batching.maxWait >= 0 && batching.maxWait < Infinity)) problems.push(`${stage.name} batch timeout must be a finite number of minutes`);
+    }
+    const check = stage.qualityCheck;
+    if (check) {
+      if (!getStage(config.line, check.reworkStage)) problems.push(`${stage.name} sends rework to unknown stage "${check.reworkStage}"`);
+      if (!(check.scrapCost >= 0)) problems.push(`${stage.name} scrap cost cannot be negative`);
+      PRODUCT_TYPES.forEach(p => {
+        const rework = check.rework[p] ?? 0;
+        const scrap = check.scrap[p] ?? 0;
+        if (!(rework >= 0 && scrap >= 0 && rework + scrap <= 1)) problems.push(`${stage.name} ${p} rework and scrap must be probabilities adding up to at most 100%`);
+        else if (rework >= 1) problems.push(`${stage.name} ${p} would be reworked forever`);
+      });
+    }
+  });
+  const groups = config.line.operators ?? [];
+  const groupIds = new Set<string>();
+  groups.forEach(group => {
+    if (groupIds.has(group.id)) problems.push(`Duplicate operator group id "${group.id}"`);
+    groupIds.add(group.id);
+    if (!(Number.isInteger(group.headcount) && group.headcount >= 1)) problems.push(`${group.name} needs a whole number of operators (at least 1)`);
+    group.skills.forEach(id => {
+      if (!getStage(config.line, id)) problems.push(`${group.name} is qualified for unknown stage "${id}"`);
+    });
+    if (group.calendar) problems.push(...validateCalendar(group.calendar, `${group.name} calendar`));
+  });
+  config.line.stages.forEach(stage => {
+    if (stage.needsOperator && !groups.some(g => g.skills.includes(stage.id))) problems.push(`${stage.name} needs an operator but no group is qualified for it`);
+  });
+  config.line.stages.forEach(stage => {
+    if (!stage.failures) return;
+    problems.push(...validateDistribution(stage.failures.timeBetweenFailures, `${stage.name} time between failures`));
+    problems.push(...validateDistribution(stage.failures.timeToRepair, `${stage.name} time to repair`));
+    if (!(distributionMean(stage.failures.timeBetweenFailures) > 0)) problems.push(`${stage.name} time between failures must have a positive mean`);
+  });
+  PRODUCT_TYPES.forEach(p => {
+    (config.line.routings[p] ?? []).forEach(id => {
+      const time = config.processTimes[p]?.[id];
+      if (time === undefined) problems.push(`${p} has no process time for stage "${id}"`);
+      else problems.push(...validateDistribution(time, `${p} at "${id}"`));
+    });
+  });
+  return problems;
+};
+
+// Keeps the time table in step with the line: new stages get an exponential
+// time with mean DEFAULT_STAGE_TIME,
+// removed stages are dropped.
+export const syncProcessTimes = (times: ProcessTimeTable, line: ProductionLine): ProcessTimeTable => {
+  const synced = {} as ProcessTimeTable;
+  PRODUCT_TYPES.forEach(p => {
+    synced[p] = Object.fromEntries(line.stages.map(s => [s.id, times[p]?.[s.id] ?? exponential(DEFAULT_STAGE_TIME)]));
+  });
+  return synced;
+};
+
+// Chart color per stage position (cycles for long lines)
+const STAGE_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#8b5cf6'];
+export const stageColor = (index: number): string => STAGE_COLORS[index % STAGE_COLORS.length];
+
+// Color per product (replay job markers)
+const PRODUCT_COLORS: Record<ProductType, string> = {
+  [ProductType.TypeA]: '#2563eb',
+  [ProductType.TypeB]: '#16a34a',
+  [ProductType.TypeC]: '#d97706',
+  [ProductType.TypeD]: '#9333ea',
+};
+export const productColor = (product: ProductType): string => PRODUCT_COLORS[product];
+
+// Compact capacity summary such as "2-2-1" (history table)
+export const capacitySummary = (line: ProductionLine): string =>
+  line.stages.map(s => s.capacity).join('-');
+
+// Compact dispatching summary such as "FIFO/SPT/FIFO" (history table)
+export const dispatchSummary = (line: ProductionLine): string =>
+  line.stages.map(s => DISPATCH_RULES[s.dispatchRule ?? 'fifo'].label).join('/');
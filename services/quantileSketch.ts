@@ -0,0 +1,95 @@
+import { QuantileSketch } from "../types";
+
+// Log-spaced buckets: every value is reported within 1% of itself, whatever its size,
+// and a sketch holds at most a few hundred buckets however many values it has seen.
+// Sketches merge exactly, so pooled percentiles over replications stay as accurate as per-run ones.
+const RELATIVE_ACCURACY = 0.01;
+const GAMMA = (1 + RELATIVE_ACCURACY) / (1 - RELATIVE_ACCURACY);
+const LOG_GAMMA = Math.log(GAMMA);
+
+// Magnitudes below this (a fraction of a second, in minutes) count as zero
+const MIN_MAGNITUDE = 1e-3;
+
+// Bucket i holds magnitudes in (GAMMA^(i-1), GAMMA^i]
+const bucketOf = (magnitude: number) => Math.ceil(Math.log(magnitude) / LOG_GAMMA);
+const bucketValue = (index: number) => 2 * GAMMA ** index / (GAMMA + 1);
+
+export const createSketch = (): QuantileSketch => ({
+  count: 0, sum: 0, min: Infinity, max: -Infinity, zero: 0, positive: {}, negative: {},
+});
+
+export const addToSketch = (sketch: QuantileSketch, value: number): void => {
+  sketch.count++;
+  sketch.sum += value;
+  sketch.min = Math.min(sketch.min, value);
+  sketch.max = Math.max(sketch.max, value);
+  if (Math.abs(value) < MIN_MAGNITUDE) {
+    sketch.zero++;
+    return;
+  }
+  const store = value > 0 ? sketch.positive : sketch.negative;
+  const bucket = bucketOf(Math.abs(value));
+  store[bucket] = (store[bucket] ?? 0) + 1;
+};
+
+export const mergeSketches = (sketches: QuantileSketch[]): QuantileSketch => {
+  const merged = createSketch();
+  const mergeStore = (into: Record<number, number>, from: Record<number, number>) => {
+    for (const [bucket, count] of Object.entries(from)) into[+bucket] = (into[+bucket] ?? 0) + count;
+  };
+  sketches.forEach(s => {
+    merged.count += s.count;
+    merged.sum += s.sum;
+    merged.min = Math.min(merged.min, s.min);
+    merged.max = Math.max(merged.max, s.max);
+    merged.zero += s.zero;
+    mergeStore(merged.positive, s.positive);
+    mergeStore(merged.negative, s.negative);
+  });
+  return merged;
+};
+
+// Buckets from the most negative value to the most positive, as [representative value, count]
+const orderedBuckets = (sketch: QuantileSketch): [number, number][] => {
+  const entries = (store: Record<number, number>) => Object.entries(store).map(([b, c]) => [+b, c] as [number, number]);
+  return [
+    ...entries(sketch.negative).sort((a, b) => b[0] - a[0]).map(([b, c]): [number, number] => [-bucketValue(b), c]),
+    ...(sketch.zero > 0 ? [[0, sketch.zero] as [number, number]] : []),
+    ...entries(sketch.positive).sort((a, b) => a[0] - b[0]).map(([b, c]): [number, number] => [bucketValue(b), c]),
+  ];
+};
+
+export const sketchMean = (sketch: QuantileSketch): number => sketch.count === 0 ? 0 : sketch.sum / sketch.count;
+
+// The q-quantile (0..1); the extremes are exact
+export const sketchQuantile = (sketch: QuantileSketch, q: number): number => {
+  if (sketch.count === 0) return 0;
+  if (q <= 0) return sketch.min;
+  if (q >= 1) return sketch.max;
+  const rank = q * (sketch.count - 1);
+  let seen = 0;
+  for (const [value, count] of orderedBuckets(sketch)) {
+    seen += count;
+    if (seen > rank) return Math.min(sketch.max, Math.max(sketch.min, value));
+  }
+  return sketch.max;
+};
+
+export interface HistogramBin {
+  min: number; // Lower edge
+  count: number;
+}
+
+// Equal-width bins from 0 (or the smallest value, if negative) to the largest value
+export const sketchHistogram = (sketch: QuantileSketch, binCount: number): HistogramBin[] => {
+  if (sketch.count === 0) return [];
+  const max = Math.ceil(Math.max(sketch.max, 1));
+  const min = Math.min(0, Math.floor(sketch.min));
+  const binWidth = (max - min) / binCount;
+  const bins = Array.from({ length: binCount }, (_, i) => ({ min: min + i * binWidth, count: 0 }));
+  orderedBuckets(sketch).forEach(([value, count]) => {
+    const clamped = Math.min(sketch.max, Math.max(sketch.min, value));
+    bins[Math.max(0, Math.min(Math.floor((clamped - min) / binWidth), binCount - 1))].count += count;
+  });
+  return bins;
+};
@@ -0,0 +1,95 @@
+import { UniformSource } from "./distributions";
+
+// splitmix32: used to expand a 32-bit seed into a full generator state
+const splitmix32 = (state: number) => (): number => {
+  state = (state + 0x9e3779b9) | 0;
+  let z = state;
+  z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+  z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+  return (z ^ (z >>> 16)) >>> 0;
+};
+
+// FNV-1a hash so that stream names map to stable 32-bit keys
+const hashString = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// xoshiro128** generator (period 2^128 - 1)
+export class RandomStream implements UniformSource {
+  private s0: number;
+  private s1: number;
+  private s2: number;
+  private s3: number;
+
+  constructor(seed: number) {
+    const init = splitmix32(seed >>> 0);
+    this.s0 = init();
+    this.s1 = init();
+    this.s2 = init();
+    this.s3 = init();
+    // An all-zero state would only ever produce zeros
+    if ((this.s0 | this.s1 | this.s2 | this.s3) === 0) this.s0 = 1;
+  }
+
+  private nextUint32(): number {
+    const result = Math.imul(this.rotl(Math.imul(this.s1, 5), 7), 9) >>> 0;
+    const t = this.s1 << 9;
+    this.s2 ^= this.s0;
+    this.s3 ^= this.s1;
+    this.s1 ^= this.s2;
+    this.s0 ^= this.s3;
+    this.s2 ^= t;
+    this.s3 = this.rotl(this.s3, 11);
+    return result;
+  }
+
+  private rotl(x: number, k: number): number {
+    return (x << k) | (x >>> (32 - k));
+  }
+
+  // Uniform in [0, 1) with 53 bits of resolution
+  next(): number {
+    const hi = this.nextUint32() >>> 5;
+    const lo = this.nextUint32() >>> 6;
+    return (hi * 67108864 + lo) / 9007199254740992;
+  }
+
+  // Choice from array, proportional to the given non-negative weights
+  weightedChoice<T>(items: T[], weights: number[]): T {
+    const total = weights.reduce((a, b) => a + b, 0);
+    let r = this.next() * total;
+    for (let i = 0; i < items.length; i++) {
+      r -= weights[i];
+      if (r < 0) return items[i];
+    }
+    return items[items.length - 1];
+  }
+}
+
+// Named, independent random streams for one replication.
+// Each stream is seeded from (seed, replication, name) only, so draws on one
+// stream never shift another: adding a machine to packaging leaves the arrival
+// and moulding sequences untouched (common random numbers across scenarios).
+export class RandomStreams {
+  private streams = new Map<string, RandomStream>();
+  private base: number;
+
+  constructor(seed: number, replication: number) {
+    const seedHash = splitmix32(seed >>> 0)();
+    this.base = splitmix32((seedHash ^ replication) >>> 0)();
+  }
+
+  stream(name: string): RandomStream {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new RandomStream(splitmix32(this.base ^ hashString(name))());
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+}
@@ -0,0 +1,60 @@
+import { ConfidenceInterval, ConfidenceLevel, KpiComparison, ScenarioResult, TrackedKpi } from "../types";
+import { confidenceInterval, tCritical, TRACKED_KPIS } from "./statistics";
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const variance = (values: number[]) => {
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+};
+
+// Runs with the same seed share their random streams replication by replication
+export const canPair = (a: ScenarioResult, b: ScenarioResult): boolean => a.config.seed === b.config.seed;
+
+// Paired-t interval of b - a over the replications both have
+const pairedDifference = (a: number[], b: number[], level: ConfidenceLevel): ConfidenceInterval | undefined => {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return undefined;
+  return confidenceInterval(Array.from({ length: n }, (_, i) => b[i] - a[i]), level);
+};
+
+// Welch interval of mean(b) - mean(a) for independent samples with unequal variances
+const welchDifference = (a: number[], b: number[], level: ConfidenceLevel): ConfidenceInterval | undefined => {
+  if (a.length < 2 || b.length < 2) return undefined;
+  const diff = mean(b) - mean(a);
+  const va = variance(a) / a.length;
+  const vb = variance(b) / b.length;
+  if (va + vb === 0) return { mean: diff, lower: diff, upper: diff };
+  // Welch-Satterthwaite degrees of freedom
+  const df = (va + vb) ** 2 / (va ** 2 / (a.length - 1) + vb ** 2 / (b.length - 1));
+  const margin = tCritical(level, df) * Math.sqrt(va + vb);
+  return { mean: diff, lower: diff - margin, upper: diff + margin };
+};
+
+// Every tracked KPI of `scenario` against `reference`
+export const compareScenarios = (reference: ScenarioResult, scenario: ScenarioResult, level: ConfidenceLevel): KpiComparison[] => {
+  const method = canPair(reference, scenario) ? 'paired' : 'welch';
+  return (Object.keys(TRACKED_KPIS) as TrackedKpi[]).map(kpi => {
+    const a = reference.stats.replicationValues[kpi];
+    const b = scenario.stats.replicationValues[kpi];
+    const difference = method === 'paired' ? pairedDifference(a, b, level) : welchDifference(a, b, level);
+    const significant = !!difference && (difference.lower > 0 || difference.upper < 0);
+    const higher = !!difference && difference.mean > 0;
+    return {
+      kpi,
+      method,
+      difference,
+      significant,
+      better: significant ? (higher === (TRACKED_KPIS[kpi].better === 'higher') ? 'scenario' : 'reference') : undefined,
+    };
+  });
+};
+
+// Marks the entry with the lowest mean cost per part, but only if it is significantly
+// cheaper than every other entry; otherwise nobody wins
+export const markBestScenario = (history: ScenarioResult[], level: ConfidenceLevel): ScenarioResult[] => {
+  if (history.length === 0) return history;
+  const cheapest = history.reduce((best, h) => h.stats.avgDegradationCostPerPart < best.stats.avgDegradationCostPerPart ? h : best);
+  const wins = history.every(h => h === cheapest ||
+    compareScenarios(h, cheapest, level).find(c => c.kpi === 'avgDegradationCostPerPart')!.better === 'scenario');
+  return history.map(h => ({ ...h, isBest: wins && h === cheapest }));
+};
@@ -0,0 +1,131 @@
+import { ProductionLine, SensitivityPoint, SensitivityResult, SensitivitySweep, SimulationConfig, SimulationStats, SweepAxis, SweepParameter, TrackedKpi } from "../types";
+import { distributionMean, scaleToMean } from "./distributions";
+import { getCostStage, getStage, withStageCapacity } from "./productionLine";
+import { TRACKED_KPIS } from "./statistics";
+
+// Each value of each axis is a full set of replications, so grids stay small
+export const MAX_AXIS_VALUES = 25;
+
+// Every parameter the line offers, in display order
+export const sweepParameters = (line: ProductionLine): SweepParameter[] => [
+  ...line.stages.map(s => ({ kind: 'capacity', stageId: s.id }) as SweepParameter),
+  { kind: 'arrivalMean' },
+  { kind: 'degradationThreshold' },
+  { kind: 'degradationCostPerMinute' },
+];
+
+// Stable key for selects and comparisons, e.g. "capacity:inspection"
+export const parameterKey = (param: SweepParameter): string =>
+  param.kind === 'capacity' ? `capacity:${param.stageId}` : param.kind;
+
+export const parameterLabel = (param: SweepParameter, line: ProductionLine): string => {
+  switch (param.kind) {
+    case 'capacity': return `${getStage(line, param.stageId)?.name ?? param.stageId} machines`;
+    case 'arrivalMean': return 'Arrival mean (min)';
+    case 'degradationThreshold': return 'Grace period (min)';
+    case 'degradationCostPerMinute': return 'Cost / min ($)';
+  }
+};
+
+// The parameter's value in the given config
+export const parameterValue = (config: SimulationConfig, param: SweepParameter): number => {
+  switch (param.kind) {
+    case 'capacity': return getStage(config.line, param.stageId)?.capacity ?? 1;
+    case 'arrivalMean': return distributionMean(config.arrivalInterval);
+    case 'degradationThreshold': return config.degradationThreshold;
+    case 'degradationCostPerMinute': return config.degradationCostPerMinute;
+  }
+};
+
+export const applyParameter = (config: SimulationConfig, param: SweepParameter, value: number): SimulationConfig => {
+  switch (param.kind) {
+    case 'capacity': return { ...config, line: withStageCapacity(config.line, param.stageId, value) };
+    case 'arrivalMean': return { ...config, arrivalInterval: scaleToMean(config.arrivalInterval, value) };
+    case 'degradationThreshold': return { ...config, degradationThreshold: value };
+    case 'degradationCostPerMinute': return { ...config, degradationCostPerMinute: value };
+  }
+};
+
+// from, from + step, ... up to and including `to`; rounded so 0.1 steps don't drift
+export const axisValues = (axis: SweepAxis): number[] => {
+  const count = Math.floor((axis.to - axis.from) / axis.step + 1e-9) + 1;
+  return Array.from({ length: Math.max(0, Math.min(count, MAX_AXIS_VALUES)) }, (_, i) => +(axis.from + i * axis.step).toFixed(6));
+};
+
+// Starting point for a new axis: a range around the parameter's current value
+export const defaultAxis = (config: SimulationConfig, param: SweepParameter): SweepAxis => {
+  const current = +parameterValue(config, param).toPrecision(3);
+  switch (param.kind) {
+    case 'capacity': return { parameter: param, from: 1, to: 10, step: 1 };
+    case 'arrivalMean': return { parameter: param, from: current / 2, to: current * 2, step: current / 4 };
+    case 'degradationThreshold': return { parameter: param, from: 0, to: 60, step: 10 };
+    case 'degradationCostPerMinute': {
+      const rate = current > 0 ? current : 1;
+      return { parameter: param, from: 0, to: rate * 2, step: rate / 4 };
+    }
+  }
+};
+
+// The original sweep: machines at the degradation-sensitive stage, 1 to 10
+export const defaultSweep = (config: SimulationConfig): SensitivitySweep => {
+  const stage = getCostStage(config.line);
+  return { x: defaultAxis(config, { kind: 'capacity', stageId: stage?.id ?? '' }) };
+};
+
+// Returns a list of human-readable problems (empty when valid)
+export const validateSweep = (sweep: SensitivitySweep, line: ProductionLine): string[] => {
+  const problems: string[] = [];
+  const checkAxis = (axis: SweepAxis, name: string) => {
+    const { parameter, from, to, step } = axis;
+    if (parameter.kind === 'capacity' && !getStage(line, parameter.stageId)) {
+      problems.push(`${name} axis refers to an unknown stage`);
+      return;
+    }
+    if (![from, to, step].every(Number.isFinite)) {
+      problems.push(`${name} axis needs numeric from, to and step`);
+      return;
+    }
+    if (!(step > 0)) problems.push(`${name} axis step must be positive`);
+    if (!(to >= from)) problems.push(`${name} axis must end at or after its start`);
+    if (parameter.kind === 'capacity' && !(Number.isInteger(from) && Number.isInteger(step) && from >= 1)) {
+      problems.push(`${name} axis machine counts must be whole numbers of at least 1`);
+    }
+    if (parameter.kind === 'arrivalMean' && !(from > 0)) problems.push(`${name} axis arrival mean must be positive`);
+    if ((parameter.kind === 'degradationThreshold' || parameter.kind === 'degradationCostPerMinute') && !(from >= 0)) {
+      problems.push(`${name} axis values cannot be negative`);
+    }
+    if (step > 0 && (to - from) / step + 1 > MAX_AXIS_VALUES + 1e-9) problems.push(`${name} axis has more than ${MAX_AXIS_VALUES} values`);
+  };
+  checkAxis(sweep.x, 'X');
+  if (sweep.y) {
+    checkAxis(sweep.y, 'Y');
+    if (parameterKey(sweep.x.parameter) === parameterKey(sweep.y.parameter)) problems.push('The two axes must vary different parameters');
+  }
+  return problems;
+};
+
+// One config per grid point, x varying fastest
+export const sweepConfigs = (config: SimulationConfig, sweep: SensitivitySweep): SimulationConfig[] => {
+  const xs = axisValues(sweep.x);
+  const ys = sweep.y ? axisValues(sweep.y) : [undefined];
+  return ys.flatMap(y => xs.map(x => {
+    const withX = applyParameter(config, sweep.x.parameter, x);
+    return sweep.y && y !== undefined ? applyParameter(withX, sweep.y.parameter, y) : withX;
+  }));
+};
+
+// Pairs the results of sweepConfigs back up with their grid points
+export const sweepResult = (sweep: SensitivitySweep, runs: SimulationStats[]): SensitivityResult => {
+  const xs = axisValues(sweep.x);
+  const ys = sweep.y ? axisValues(sweep.y) : [undefined];
+  const points: SensitivityPoint[] = ys.flatMap((y, j) => xs.map((x, i) => {
+    const stats = runs[j * xs.length + i];
+    return {
+      label: y === undefined ? `${x}` : `${x} × ${y}`,
+      xValue: x,
+      yValue: y,
+      kpis: Object.fromEntries((Object.keys(TRACKED_KPIS) as TrackedKpi[]).map(kpi => [kpi, TRACKED_KPIS[kpi].ci(stats)])) as SensitivityPoint['kpis'],
+    };
+  }));
+  return { sweep, points };
+};
@@ -0,0 +1,15 @@
+import { SimulationEngine } from "./simulationEngine";
+import { ReplicationTask, ReplicationReply, BenchmarkTask, BenchmarkReply } from "./simulationPool";
+
+// Background worker for SimulationPool: runs one replication, or times a whole run, per message
+self.onmessage = (e: MessageEvent<ReplicationTask | BenchmarkTask>) => {
+  const task = e.data;
+  let reply: ReplicationReply | BenchmarkReply;
+  try {
+    const engine = new SimulationEngine(task.config);
+    reply = 'benchmark' in task ? { benchmark: engine.benchmark() } : { stats: engine.runReplication(task.replication) };
+  } catch (err) {
+    reply = { error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(reply);
+};
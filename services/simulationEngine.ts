@@ -1,277 +1,1102 @@
-import { Job, ProductType, SimulationConfig, SimulationStats, WaitStats, ConfidenceInterval } from "../types";
-
-// Simple pseudo-random number generator for reproducibility
-class Random {
-  private seed: number;
-
-  constructor(seed: number) {
-    this.seed = seed;
-  }
-
-  // Linear Congruential Generator
-  next(): number {
-    this.seed = (this.seed * 9301 + 49297) % 233280;
-    return this.seed / 233280;
-  }
-
-  // Exponential distribution for process times and intervals
-  exponential(mean: number): number {
-    return -Math.log(1 - this.next()) * mean;
-  }
-
-  // Choice from array
-  choice<T>(items: T[]): T {
-    const idx = Math.floor(this.next() * items.length);
-    return items[idx];
-  }
-}
+import { Job, ProductType, SimulationConfig, SimulationStats, WaitStats, ConfidenceInterval, StageVisit, BenchmarkResult, TraceEvent, TraceEventType, TimeSeries, QuantileSketch, TrackedKpi, MachineState, SimulationRun, SimulationSnapshot, PRODUCT_TYPES } from "../types";
+import { validateSimulationConfig } from "./productionLine";
+import { sampleDistribution, distributionMean } from "./distributions";
+import { RandomStreams } from "./random";
+import { EventCalendar, FifoQueue } from "./eventCalendar";
+import { createDispatchQueue, DispatchContext } from "./dispatching";
+import { CalendarSchedule, advanceByRate } from "./calendar";
+import { BatchQueue } from "./batching";
+import { createSketch, addToSketch, mergeSketches, sketchMean, sketchQuantile } from "./quantileSketch";
+import { confidenceInterval, intervalAround, pointEstimate, precisionOf, DEFAULT_CONFIDENCE_LEVEL, PILOT_REPLICATIONS } from "./statistics";
 
 // Event types
 enum EventType {
   ARRIVAL,
-  MOULDING_FINISH,
-  INSPECTION_FINISH,
-  PACKAGING_FINISH,
+  STAGE_FINISH,
+  MACHINE_FAILURE,
+  REPAIR_FINISH,
+  SHIFT_CHANGE,
+  BATCH_TIMEOUT,
+  OPERATOR_SHIFT,
 }
 
+// Time bins per run for the Welch plot and the time series
+const TIME_BINS = 100;
+
+// Tie-break for simultaneous events (lower fires first): machines are released
+// before new orders arrive so an arrival can take a machine freed at the same instant
+const EVENT_PRIORITY: Record<EventType, number> = {
+  [EventType.STAGE_FINISH]: 0,
+  [EventType.REPAIR_FINISH]: 1,
+  [EventType.SHIFT_CHANGE]: 2,
+  [EventType.OPERATOR_SHIFT]: 2,
+  [EventType.MACHINE_FAILURE]: 3,
+  [EventType.ARRIVAL]: 4,
+  [EventType.BATCH_TIMEOUT]: 5, // Same-time arrivals still count towards the batch
+};
+
+const TRACE_TYPE: Record<EventType, TraceEventType> = {
+  [EventType.ARRIVAL]: 'arrival',
+  [EventType.STAGE_FINISH]: 'finish',
+  [EventType.MACHINE_FAILURE]: 'failure',
+  [EventType.REPAIR_FINISH]: 'repair',
+  [EventType.SHIFT_CHANGE]: 'shift',
+  [EventType.BATCH_TIMEOUT]: 'batchTimeout',
+  [EventType.OPERATOR_SHIFT]: 'operatorShift',
+};
+
 interface SimEvent {
-  time: number;
   type: EventType;
   job?: Job; // For finish events
+  stage?: number; // Stage index for finish / failure / repair / shift / batch timeout events
+  machine?: number; // Machine index within the stage
+  token?: number; // Finish events are stale if the machine's token moved on (preemption)
+  group?: number; // Operator group index for operator shift events
+}
+
+// Per-machine state (needed for breakdowns and shift calendars)
+interface Machine {
+  jobs: Job[]; // In process (several when batching), or interrupted and waiting for a repair / the next shift
+  running: boolean; // A processing segment (and its finish event) is in progress
+  down: boolean;
+  offShift: boolean;
+  failurePending: boolean; // Non-preemptive failure: go down once the current job is done
+  blocked: boolean; // Finished jobs wait on the machine for room in the next stage's buffer
+  lastProduct?: ProductType; // What the machine is currently set up for
+  operator?: number; // Group of the operator running the current job, at stages that need one
+  setupLeft: number; // Changeover minutes of the current job not yet done
+  token: number;
+  segmentStart: number; // Start of the current uninterrupted processing segment
+  finishTime: number;
+  remaining: number; // Work left on an interrupted job
+  downSince: number;
+  downtime: number;
+  stateSince: number; // Start of the current MachineState period
+}
+
+// Off-shift wins over down so that the breakdown only covers scheduled time.
+// `idle` is what an empty machine is doing: starved, forming a batch or waiting for an operator.
+const machineState = (m: Machine, idle: MachineState): MachineState =>
+  m.offShift ? 'offShift' : m.down ? 'down' : m.blocked ? 'blocked' : m.jobs.length > 0 ? 'busy' : idle;
+
+// A piecewise-constant level (WIP, a queue length, busy machines) averaged per time bin
+interface BinnedLevel {
+  value: number;
+  since: number; // Last change, or the start of the open bin
+  area: number; // Level x minutes so far in the open bin
+  bins: number[];
 }
 
+const createLevel = (): BinnedLevel => ({ value: 0, since: 0, area: 0, bins: Array.from({ length: TIME_BINS }, () => 0) });
+
+// A single run's series has no band
+const singleRun = (values: number[]): TimeSeries => ({ mean: values, lower: values, upper: values });
+
+// Pooled percentiles of a wait distribution (the mean and intervals depend on the caller)
+const waitPercentiles = (sketch: QuantileSketch) => ({
+  p50: sketchQuantile(sketch, 0.5),
+  p90: sketchQuantile(sketch, 0.9),
+  p95: sketchQuantile(sketch, 0.95),
+  p99: sketchQuantile(sketch, 0.99),
+  max: sketch.count > 0 ? sketch.max : 0,
+});
+
+// Running totals of per-bin amounts
+const cumulative = (values: number[]): number[] => {
+  let total = 0;
+  return values.map(v => total += v);
+};
+
 export class SimulationEngine {
   private config: SimulationConfig;
   
   constructor(config: SimulationConfig) {
+    const problems = validateSimulationConfig(config);
+    if (problems.length > 0) {
+      throw new Error(`Invalid simulation config: ${problems.join('; ')}`);
+    }
     this.config = config;
   }
 
   // Main entry point that handles multiple replications
   public run(): SimulationStats {
-    const runs = Math.max(1, this.config.replications);
     const results: SimulationStats[] = [];
 
-    for (let i = 0; i < runs; i++) {
-        // Vary seed slightly for each replication if seed is fixed, 
-        // or rely on user providing a different seed. 
-        // For this demo, we'll increment the seed for each replication
-        // to ensure they are different but reproducible.
-        const runConfig = { ...this.config, seed: this.config.seed + i };
-        results.push(this.runSingleSimulation(runConfig));
+    while (!this.enoughReplications(results)) {
+        // Each replication gets its own family of random streams derived from
+        // (seed, replication), so runs are independent but reproducible.
+        results.push(this.runReplication(results.length));
     }
 
     return this.aggregateResults(results);
   }
 
-  private runSingleSimulation(config: SimulationConfig): SimulationStats {
-    const random = new Random(config.seed);
+  // Replications to run: exactly `replications`, or a range for a precision target
+  public replicationRange(): { min: number; max: number } {
+    const fixed = Math.max(1, this.config.replications);
+    const target = this.config.precision;
+    return target ? { min: Math.max(PILOT_REPLICATIONS, fixed), max: target.maxReplications } : { min: fixed, max: fixed };
+  }
+
+  // Whether the first replications (in order) are all the run needs
+  public enoughReplications(runs: SimulationStats[]): boolean {
+    const { min, max } = this.replicationRange();
+    if (runs.length < min) return false;
+    if (runs.length >= max || !this.config.precision) return true;
+    return precisionOf(runs, this.config.precision, this.config.confidenceLevel ?? DEFAULT_CONFIDENCE_LEVEL).reached;
+  }
+
+  // Runs all replications and reports raw engine speed
+  public benchmark(): BenchmarkResult {
+    const start = performance.now();
+    const stats = this.run();
+    const elapsedMs = performance.now() - start;
+    return {
+      replications: stats.precision?.replications ?? Math.max(1, this.config.replications),
+      events: stats.eventCount,
+      elapsedMs,
+      eventsPerSecond: elapsedMs > 0 ? stats.eventCount / (elapsedMs / 1000) : 0,
+    };
+  }
+
+  // Runs a single replication to the end; replications can run in any order (or in parallel)
+  // and be combined with aggregateResults
+  public runReplication(replication: number): SimulationStats {
+    return this.createRun(this.config, replication).stats();
+  }
+
+  // Starts one replication without running it; the caller drives it event by event
+  public start(replication = 0): SimulationRun {
+    return this.createRun(this.config, replication);
+  }
+
+  private createRun(config: SimulationConfig, replication: number): SimulationRun {
+    const random = new RandomStreams(config.seed, replication);
+    const arrivalStream = random.stream('arrivals');
+    const productStream = random.stream('products');
+    const { stages, routings } = config.line;
+    const stageIndex = new Map(stages.map((s, i) => [s.id, i]));
     let currentTime = 0;
-    const queue: SimEvent[] = [];
+    const calendar = new EventCalendar<SimEvent>();
+    let eventCount = 0;
     const jobs: Job[] = [];
+    const traceEvents: TraceEvent[] | undefined = config.trace ? [] : undefined;
+
+    // Warm-up: everything observed before it is discarded from the KPIs
+    const warmUp = config.warmUp;
+    const measuring = () => currentTime >= warmUp;
+    // Part of [from, to] inside the measured window [warmUp, duration]
+    const observed = (from: number, to: number) => Math.max(0, Math.min(to, config.duration) - Math.max(from, warmUp));
+
+    // Expected process time per product and stage, for due dates and critical ratios
+    const expectedTime = (type: ProductType, stageId: string) => distributionMean(config.processTimes[type][stageId]);
+    const remainingWork = (job: Job) =>
+        job.route.slice(job.routeStep).reduce((sum, id) => sum + expectedTime(job.productType, id), 0);
+
+    const changeoverTime = (stage: number, previous: ProductType | undefined, next: ProductType) =>
+        previous === undefined ? 0 : stages[stage].changeovers?.[previous]?.[next] ?? 0;
+
+    const dueDateAllowance = (job: Job): number => {
+        const policy = config.dueDates;
+        switch (policy.kind) {
+            case 'fixed': return policy.allowance;
+            case 'twk': return policy.factor * remainingWork(job);
+            case 'product': return policy.leadTime[job.productType] ?? 0;
+        }
+    };
+
+    const dispatchContext: DispatchContext = {
+        processTime: job => currentVisit(job).processTime,
+        remainingWork,
+        productPriority: config.productPriority,
+        setupTime: (job, previous) => changeoverTime(stageIndex.get(job.route[job.routeStep])!, previous, job.productType),
+    };
+
+    // Resources, queues and utilization tracking (one slot per stage)
+    const machines: Machine[][] = stages.map(s => Array.from({ length: s.capacity }, () => ({
+        jobs: [] as Job[], running: false, down: false, offShift: false, failurePending: false, blocked: false, setupLeft: 0,
+        token: 0, segmentStart: 0, finishTime: 0, remaining: 0, downSince: 0, downtime: 0, stateSince: 0,
+    })));
+    const batchQueues = stages.map(s => s.batching ? new BatchQueue(s.batching, job => currentVisit(job).queueEntryTime) : undefined);
+    const stageQueues = stages.map((s, i) => batchQueues[i] ?? createDispatchQueue(s.dispatchRule ?? 'fifo', dispatchContext));
+    const busyTime = stages.map(() => 0);
+    const setupTime = stages.map(() => 0);
+    const setupCount = stages.map(() => 0);
+
+    // Banks the time since the segment started; a job's changeover always comes before its processing
+    const bankWork = (stage: number, machine: Machine) => {
+        const elapsed = currentTime - machine.segmentStart;
+        const setup = Math.min(elapsed, machine.setupLeft);
+        const setupEnd = machine.segmentStart + setup;
+        machine.setupLeft -= setup;
+        setupTime[stage] += observed(machine.segmentStart, setupEnd);
+        busyTime[stage] += observed(setupEnd, currentTime);
+    };
+
+    // Finite buffers: upstream machines blocked on each stage, in the order they finished
+    const bufferLimit = stages.map(s => s.bufferCapacity ?? Infinity);
+    const blockedOn = stages.map(() => new FifoQueue<{ stage: number; m: number }>());
+    // Jobs a quality check just sent back. Like new orders they enter regardless of the limit:
+    // a check waiting for room upstream while that stage waits for room at the check never clears.
+    const reworkReturns = new Set<number>();
+
+    // Operator pool: groups qualified for each stage, fewest skills first so that
+    // versatile operators stay free for the stages only they can run
+    const groups = config.line.operators ?? [];
+    const staffed = stages.map(s => !!s.needsOperator);
+    const qualifiedGroups = stages.map(s => groups
+        .map((_, g) => g)
+        .filter(g => groups[g].skills.includes(s.id))
+        .sort((a, b) => groups[a].skills.length - groups[b].skills.length));
+    const groupSchedules = groups.map(g => g.calendar ? new CalendarSchedule(g.calendar) : undefined);
+    const onDuty = groupSchedules.map(sched => !sched || sched.isWorking(0));
+    const operatorsBusy = groups.map(() => 0);
+    const operatorBusyTime = groups.map(() => 0);
+    const operatorOvertime = groups.map(() => 0);
+    const operatorJobs = groups.map(() => 0);
+    const operatorsSince = groups.map(() => 0);
+    const freeOperators = (g: number) => onDuty[g] ? groups[g].headcount - operatorsBusy[g] : 0;
+    const canStaff = (stage: number) => !staffed[stage] || qualifiedGroups[stage].some(g => freeOperators(g) > 0);
 
-    // Resources
-    let mouldingFree = config.mouldingMachines;
-    let inspectionFree = config.inspectionStations;
-    let packagingFree = config.packagingMachines;
+    // Machine-minutes per state and stage within the measured window
+    const stateTime = stages.map((): Record<MachineState, number> => ({ busy: 0, blocked: 0, starved: 0, forming: 0, unstaffed: 0, down: 0, offShift: 0 }));
+    const idleState = (stage: number): MachineState => {
+        if (stageQueues[stage].length === 0) return 'starved';
+        if (!canStaff(stage)) return 'unstaffed';
+        return batchQueues[stage] ? 'forming' : 'starved';
+    };
+    // Call before changing a machine's flags (or the queue or operators an idle machine waits for)
+    // so the elapsed period goes to the old state
+    const track = (stage: number, m: number, until = currentTime) => {
+        const machine = machines[stage][m];
+        stateTime[stage][machineState(machine, idleState(stage))] += observed(machine.stateSince, until);
+        machine.stateSince = until;
+    };
+    const trackIdle = (stage: number) => machines[stage].forEach((machine, m) => {
+        if (machine.jobs.length === 0) track(stage, m);
+    });
+
+    // Call before a group's free headcount changes: banks its busy time and the
+    // idle time of the machines that may be waiting for it
+    const trackOperators = (g: number, until = currentTime) => {
+        const span = observed(operatorsSince[g], until);
+        operatorBusyTime[g] += operatorsBusy[g] * span;
+        if (!onDuty[g]) operatorOvertime[g] += operatorsBusy[g] * span;
+        operatorsSince[g] = until;
+        stages.forEach((s, stage) => {
+            if (staffed[stage] && groups[g].skills.includes(s.id)) trackIdle(stage);
+        });
+    };
 
-    // Queues
-    const mouldingQueue: Job[] = [];
-    const inspectionQueue: Job[] = [];
-    const packagingQueue: Job[] = [];
+    // Batch KPIs
+    const batchCount = stages.map(() => 0);
+    const batchedJobs = stages.map(() => 0);
 
-    // Utilization Tracking
-    let totalMouldingBusyTime = 0;
-    let totalInspectionBusyTime = 0;
-    let totalPackagingBusyTime = 0;
+    // Breakdown tracking
+    const failureCount = stages.map(() => 0);
+    const affectedJobs = stages.map(() => new Set<number>());
 
-    // WIP Tracking (Area under curve approach)
+    // WIP Tracking (Area under curve approach), plus per-bin averages over the whole run for Welch's method
+    // and the time series of queue lengths and busy machines
     let lastEventTime = 0;
     let wipArea = 0;
     let currentWip = 0;
+    const binWidth = config.duration / TIME_BINS;
+    const newBins = () => Array.from({ length: TIME_BINS }, () => 0);
+    const binOf = (time: number) => Math.min(TIME_BINS - 1, Math.floor(time / binWidth));
+    // Levels are integrated only when they change or a bin closes, so an event costs nothing per stage
+    const wipLevel = createLevel();
+    const queueLevels = stages.map(createLevel);
+    const busyLevels = stages.map(createLevel);
+    const levels = [wipLevel, ...queueLevels, ...busyLevels];
+    let openBin = 0;
+    const binEnd = (bin: number) => bin === TIME_BINS - 1 ? config.duration : (bin + 1) * binWidth;
+    // Banks the time at the old value into the open bin; call on every change
+    const setLevel = (level: BinnedLevel, value: number) => {
+        level.area += level.value * (currentTime - level.since);
+        level.since = currentTime;
+        level.value = value;
+    };
+    // Closes the bins that end by `time`, before anything changes at that time
+    const closeBins = (time: number) => {
+        while (openBin < TIME_BINS && binEnd(openBin) <= time) {
+            const end = binEnd(openBin);
+            levels.forEach(level => {
+                level.bins[openBin] = (level.area + level.value * (end - level.since)) / binWidth;
+                level.area = 0;
+                level.since = end;
+            });
+            openBin++;
+        }
+    };
+    const setWip = (wip: number) => {
+        currentWip = wip;
+        setLevel(wipLevel, wip);
+    };
+    const queueChanged = (stage: number) => setLevel(queueLevels[stage], stageQueues[stage].length);
+    const setRunning = (stage: number, machine: Machine, running: boolean) => {
+        if (machine.running !== running) setLevel(busyLevels[stage], busyLevels[stage].value + (running ? 1 : -1));
+        machine.running = running;
+    };
 
     // Helper to schedule
-    const schedule = (type: EventType, time: number, job?: Job) => {
-        queue.push({ type, time, job });
-        queue.sort((a, b) => a.time - b.time);
-    };
-
-    // Helper for process times
-    const getProcessTime = (stage: 'moulding' | 'inspection' | 'packaging', type: ProductType): number => {
-        let baseMean = 10;
-        switch (type) {
-            case ProductType.TypeA: baseMean = 10; break;
-            case ProductType.TypeB: baseMean = 15; break;
-            case ProductType.TypeC: baseMean = 20; break;
-            case ProductType.TypeD: baseMean = 12; break;
+    const schedule = (type: EventType, time: number, job?: Job, stage?: number, machine?: number, token?: number) => {
+        calendar.schedule(time, EVENT_PRIORITY[type], { type, job, stage, machine, token });
+    };
+
+    // Helper for process times (distributions come from the config's time table).
+    // Streams are keyed by stage id so adding or reordering stages keeps the others' draws.
+    const stageStreams = stages.map(s => random.stream(`stage:${s.id}`));
+    const getProcessTime = (stage: number, type: ProductType): number =>
+        Math.max(0, sampleDistribution(config.processTimes[type][stages[stage].id], stageStreams[stage]));
+
+    // With a rate profile the base interval is stretched or squeezed by the time-of-week multiplier
+    const nextArrivalTime = (from: number): number => {
+        const interval = Math.max(0, sampleDistribution(config.arrivalInterval, arrivalStream));
+        return config.arrivalProfile ? advanceByRate(config.arrivalProfile, from, interval) : from + interval;
+    };
+
+    const schedules = stages.map(s => s.calendar ? new CalendarSchedule(s.calendar) : undefined);
+
+    // One failure and one repair stream per machine, so adding a machine leaves the others' breakdowns unchanged
+    const failureStreams = stages.map(s => Array.from({ length: s.capacity }, (_, m) => random.stream(`failure:${s.id}:${m}`)));
+    const repairStreams = stages.map(s => Array.from({ length: s.capacity }, (_, m) => random.stream(`repair:${s.id}:${m}`)));
+    const scheduleFailure = (stage: number, m: number) => {
+        const failures = stages[stage].failures;
+        if (!failures) return;
+        const uptime = Math.max(0, sampleDistribution(failures.timeBetweenFailures, failureStreams[stage][m]));
+        schedule(EventType.MACHINE_FAILURE, currentTime + uptime, undefined, stage, m);
+    };
+
+    const mixWeights = PRODUCT_TYPES.map(p => config.productMix[p] ?? 0);
+
+    const currentVisit = (job: Job): StageVisit => job.visits[job.visits.length - 1];
+
+    const isAvailable = (machine: Machine) => !machine.down && !machine.offShift;
+    const idleMachine = (stage: number) => machines[stage].findIndex(m => isAvailable(m) && m.jobs.length === 0);
+
+    // Runs `work` minutes of the machine's job from now on
+    const startSegment = (stage: number, m: number, work: number) => {
+        const machine = machines[stage][m];
+        setRunning(stage, machine, true);
+        machine.segmentStart = currentTime;
+        machine.finishTime = currentTime + work;
+        schedule(EventType.STAGE_FINISH, machine.finishTime, machine.jobs[0], stage, m, machine.token);
+    };
+
+    // Starts a job, or a batch (setup follows the first part; the slowest part sets the pace)
+    const startService = (stage: number, m: number, batch: Job[]) => {
+        const machine = machines[stage][m];
+        if (staffed[stage]) {
+            const g = qualifiedGroups[stage].find(g => freeOperators(g) > 0)!;
+            trackOperators(g);
+            operatorsBusy[g]++;
+            if (measuring()) operatorJobs[g]++;
+            machine.operator = g;
+        }
+        const lead = batch[0];
+        const setup = changeoverTime(stage, machine.lastProduct, lead.productType);
+        batch.forEach(job => { currentVisit(job).startTime = currentTime; });
+        if (setup > 0) {
+            currentVisit(lead).setupTime = setup;
+            if (measuring()) setupCount[stage]++;
         }
-        if (stage === 'inspection') baseMean *= 0.8; 
-        if (stage === 'packaging') baseMean *= 0.6;
-        return random.exponential(baseMean);
+        if (batchQueues[stage] && measuring()) {
+            batchCount[stage]++;
+            batchedJobs[stage] += batch.length;
+        }
+        track(stage, m);
+        machine.jobs = batch;
+        machine.lastProduct = lead.productType;
+        machine.setupLeft = setup;
+        startSegment(stage, m, setup + Math.max(...batch.map(job => currentVisit(job).processTime)));
     };
 
-    // Schedule first arrival
-    schedule(EventType.ARRIVAL, random.exponential(config.arrivalIntervalMean));
+    // Frees the operator of a machine whose job just finished
+    const releaseOperator = (machine: Machine): number | undefined => {
+        const g = machine.operator;
+        if (g === undefined) return undefined;
+        trackOperators(g);
+        operatorsBusy[g]--;
+        machine.operator = undefined;
+        return g;
+    };
 
-    while (queue.length > 0 && currentTime < config.duration) {
-      const event = queue.shift()!;
+    // Sends a group's free operators to idle machines with work queued, longest queue first
+    const assignOperators = (g: number) => {
+        const candidates = stages
+            .map((_, stage) => stage)
+            .filter(stage => staffed[stage] && groups[g].skills.includes(stages[stage].id))
+            .sort((a, b) => stageQueues[b].length - stageQueues[a].length);
+        candidates.forEach(stage => machines[stage].forEach((machine, m) => {
+            if (freeOperators(g) > 0 && isAvailable(machine) && machine.jobs.length === 0) pullNext(stage, m);
+        }));
+    };
+
+    const scheduleOperatorShift = (g: number) => {
+        const next = groupSchedules[g]!.nextChange(currentTime);
+        if (next < Infinity) calendar.schedule(next, EVENT_PRIORITY[EventType.OPERATOR_SHIFT], { type: EventType.OPERATOR_SHIFT, group: g });
+    };
+
+    // Whether a job coming from upstream can be taken now (idle staffed machine or buffer space).
+    // An idle batching machine may still be waiting to fill, so only its buffer counts.
+    const hasRoom = (stage: number) =>
+        (!batchQueues[stage] && idleMachine(stage) >= 0 && canStaff(stage)) || stageQueues[stage].length < bufferLimit[stage];
+
+    // Pulls the next queued job (or ready batch) onto an idle machine, if any, then lets blocked upstream jobs in
+    const pullNext = (stage: number, m: number) => {
+        const batchQueue = batchQueues[stage];
+        if (!canStaff(stage)) {
+            // Nothing starts until a qualified operator is free
+        } else if (batchQueue) {
+            trackIdle(stage);
+            const batch = batchQueue.take(currentTime);
+            queueChanged(stage);
+            if (batch) startService(stage, m, batch);
+        } else if (stageQueues[stage].length > 0) {
+            if (staffed[stage]) trackIdle(stage);
+            const job = stageQueues[stage].pop(currentTime, machines[stage][m].lastProduct)!;
+            queueChanged(stage);
+            startService(stage, m, [job]);
+        }
+        releaseBlocked(stage);
+    };
+
+    // Moves jobs held on upstream machines into the stage while it has room; each
+    // freed machine pulls from its own queue, so space can ripple back up the line
+    const releaseBlocked = (stage: number) => {
+        while (blockedOn[stage].length > 0 && hasRoom(stage)) {
+            const { stage: from, m } = blockedOn[stage].shift()!;
+            unload(from, m);
+        }
+    };
+
+    // Moves a machine's finished jobs on in order. Blocking after service: the
+    // first one without room downstream keeps the machine (and the rest) waiting.
+    const unload = (stage: number, m: number) => {
+        const machine = machines[stage][m];
+        track(stage, m);
+        while (machine.jobs.length > 0) {
+            const job = machine.jobs[0];
+            const next = !job.scrapped && job.routeStep < job.route.length ? stageIndex.get(job.route[job.routeStep])! : -1;
+            if (next >= 0 && !reworkReturns.has(job.id) && !hasRoom(next)) {
+                machine.blocked = true;
+                blockedOn[next].push({ stage, m });
+                return;
+            }
+            const visit = currentVisit(job);
+            if (currentTime > visit.endTime!) visit.blockedTime = currentTime - visit.endTime!;
+            // The job moves on while still holding the machine, so that on routings that loop
+            // back the room just checked is still there and the machine can't take it again
+            reworkReturns.delete(job.id);
+            advance(job);
+            machine.jobs.shift();
+        }
+        machine.blocked = false;
+        release(stage, m);
+    };
+
+    // Frees a machine whose jobs have left, then puts it back to work
+    const release = (stage: number, m: number) => {
+        const machine = machines[stage][m];
+        if (machine.failurePending) {
+            breakDown(stage, m);
+        } else {
+            resume(stage, m);
+        }
+    };
+
+    // Stops the running segment: banks the work done so far and invalidates the scheduled finish
+    const interrupt = (stage: number, m: number) => {
+        const machine = machines[stage][m];
+        if (!machine.running) return;
+        track(stage, m);
+        bankWork(stage, machine);
+        machine.remaining = machine.finishTime - currentTime;
+        setRunning(stage, machine, false);
+        machine.token++;
+    };
+
+    // Puts a machine that may have become available back to work
+    const resume = (stage: number, m: number) => {
+        const machine = machines[stage][m];
+        if (!isAvailable(machine)) return;
+        if (machine.jobs.length > 0) {
+            // Continue the interrupted job; blocked ones wait for downstream room instead
+            if (!machine.running && !machine.blocked) startSegment(stage, m, machine.remaining);
+        } else {
+            pullNext(stage, m);
+        }
+    };
+
+    const scheduleShiftChange = (stage: number) => {
+        const next = schedules[stage]!.nextChange(currentTime);
+        if (next < Infinity) schedule(EventType.SHIFT_CHANGE, next, undefined, stage);
+    };
+
+    const breakDown = (stage: number, m: number) => {
+        const machine = machines[stage][m];
+        track(stage, m);
+        machine.down = true;
+        machine.failurePending = false;
+        machine.downSince = currentTime;
+        if (measuring()) {
+            failureCount[stage]++;
+            machine.jobs.forEach(j => affectedJobs[stage].add(j.id));
+            stageQueues[stage].toArray().forEach(j => affectedJobs[stage].add(j.id));
+        }
+        const repair = Math.max(0, sampleDistribution(stages[stage].failures!.timeToRepair, repairStreams[stage][m]));
+        schedule(EventType.REPAIR_FINISH, currentTime + repair, undefined, stage, m);
+    };
+
+    // Quality checks: decides pass / rework / scrap for a job that just finished at `stage`
+    const qualityStreams = stages.map(s => random.stream(`quality:${s.id}`));
+    let reworkCount = 0;
+    let scrapCount = 0;
+    let scrapCost = 0;
+    const inspect = (job: Job, stage: number) => {
+        const check = stages[stage].qualityCheck;
+        if (!check) return;
+        const u = qualityStreams[stage].next();
+        const scrap = check.scrap[job.productType] ?? 0;
+        const rework = check.rework[job.productType] ?? 0;
+        if (u < scrap) {
+            job.scrapped = true;
+            if (measuring()) {
+                scrapCount++;
+                scrapCost += check.scrapCost;
+            }
+        } else if (u < scrap + rework) {
+            // Repeat the routing from the rework stage (or just this check if the product skips it)
+            const checkStep = job.routeStep - 1;
+            const from = job.route.lastIndexOf(check.reworkStage, checkStep);
+            job.route = [...job.route.slice(0, job.routeStep), ...job.route.slice(from >= 0 ? from : checkStep)];
+            job.reworks++;
+            reworkReturns.add(job.id);
+            if (measuring()) reworkCount++;
+        }
+    };
+
+    // Sends a job to the next stage of its routing, or completes it
+    const advance = (job: Job) => {
+        if (job.scrapped) {
+            setWip(currentWip - 1);
+            return;
+        }
+        if (job.routeStep >= job.route.length) {
+            setWip(currentWip - 1);
+            job.completionTime = currentTime;
+            job.finished = true;
+            return;
+        }
+        const stage = stageIndex.get(job.route[job.routeStep])!;
+        job.visits.push({
+            stageId: stages[stage].id,
+            queueEntryTime: currentTime,
+            processTime: getProcessTime(stage, job.productType),
+        });
+        const batching = stages[stage].batching;
+        if (batching) {
+            // Parts always queue first; a free machine starts as soon as they make a batch (or time out)
+            trackIdle(stage);
+            stageQueues[stage].push(job);
+            queueChanged(stage);
+            schedule(EventType.BATCH_TIMEOUT, currentTime + batching.maxWait, undefined, stage);
+            const m = idleMachine(stage);
+            if (m >= 0) pullNext(stage, m);
+            return;
+        }
+        const m = idleMachine(stage);
+        if (m >= 0 && canStaff(stage)) {
+            startService(stage, m, [job]);
+        } else {
+            if (staffed[stage]) trackIdle(stage);
+            stageQueues[stage].push(job);
+            queueChanged(stage);
+        }
+    };
+
+    // Schedule first arrival, the first failure of every machine and the first shift change
+    schedule(EventType.ARRIVAL, nextArrivalTime(0));
+    stages.forEach((_, stage) => machines[stage].forEach((_, m) => scheduleFailure(stage, m)));
+    schedules.forEach((sched, stage) => {
+        if (!sched) return;
+        const working = sched.isWorking(0);
+        machines[stage].forEach(m => { m.offShift = !working; });
+        scheduleShiftChange(stage);
+    });
+    groupSchedules.forEach((sched, g) => { if (sched) scheduleOperatorShift(g); });
+
+    // Handles one live event
+    const processEvent = (time: number, event: SimEvent) => {
+      eventCount++;
       
-      // Update WIP Area
-      wipArea += currentWip * (event.time - lastEventTime);
-      lastEventTime = event.time;
+      // Update WIP Area and the time series
+      wipArea += currentWip * observed(lastEventTime, time);
+      closeBins(time);
+      lastEventTime = time;
       
-      currentTime = event.time;
+      currentTime = time;
 
       switch (event.type) {
-        case EventType.ARRIVAL:
-          currentWip++;
+        case EventType.ARRIVAL: {
+          setWip(currentWip + 1);
+          const productType = productStream.weightedChoice(PRODUCT_TYPES, mixWeights);
           const job: Job = {
             id: jobs.length + 1,
-            productType: random.choice([ProductType.TypeA, ProductType.TypeB, ProductType.TypeC, ProductType.TypeD]),
+            productType,
             arrivalTime: currentTime,
+            dueDate: currentTime,
+            route: routings[productType],
+            routeStep: 0,
+            visits: [],
             finished: false,
+            reworks: 0,
+            scrapped: false,
           };
+          job.dueDate = currentTime + dueDateAllowance(job);
           jobs.push(job);
           
-          const nextArrival = currentTime + random.exponential(config.arrivalIntervalMean);
+          const nextArrival = nextArrivalTime(currentTime);
           if (nextArrival < config.duration) schedule(EventType.ARRIVAL, nextArrival);
 
-          if (mouldingFree > 0) {
-            mouldingFree--;
-            job.mouldingStartTime = currentTime;
-            schedule(EventType.MOULDING_FINISH, currentTime + getProcessTime('moulding', job.productType), job);
-          } else {
-            mouldingQueue.push(job);
-          }
+          advance(job);
           break;
+        }
 
-        case EventType.MOULDING_FINISH:
-          const mJob = event.job!;
-          mJob.mouldingEndTime = currentTime;
-          if(mJob.mouldingStartTime) totalMouldingBusyTime += (currentTime - mJob.mouldingStartTime);
-          mouldingFree++;
-
-          if (mouldingQueue.length > 0) {
-            mouldingFree--;
-            const next = mouldingQueue.shift()!;
-            next.mouldingStartTime = currentTime;
-            schedule(EventType.MOULDING_FINISH, currentTime + getProcessTime('moulding', next.productType), next);
-          }
+        case EventType.STAGE_FINISH: {
+          const stage = event.stage!;
+          const machine = machines[stage][event.machine!];
+          bankWork(stage, machine);
+          setRunning(stage, machine, false);
+          machine.jobs.forEach(job => {
+            currentVisit(job).endTime = currentTime;
+            job.routeStep++;
+            inspect(job, stage);
+          });
+          // The operator is free as soon as the job is done, even if the machine stays blocked
+          const g = releaseOperator(machine);
+          unload(stage, event.machine!);
+          if (g !== undefined) assignOperators(g);
+          break;
+        }
 
-          if (inspectionFree > 0) {
-            inspectionFree--;
-            mJob.inspectionStartTime = currentTime;
-            schedule(EventType.INSPECTION_FINISH, currentTime + getProcessTime('inspection', mJob.productType), mJob);
-          } else {
-            inspectionQueue.push(mJob);
+        case EventType.MACHINE_FAILURE: {
+          const stage = event.stage!;
+          const m = event.machine!;
+          const machine = machines[stage][m];
+          if (machine.jobs.length > 0 && stages[stage].failures!.handling === 'non-preemptive') {
+            machine.failurePending = true;
+            break;
           }
+          interrupt(stage, m);
+          breakDown(stage, m);
           break;
+        }
 
-        case EventType.INSPECTION_FINISH:
-          const iJob = event.job!;
-          iJob.inspectionEndTime = currentTime;
-          if(iJob.inspectionStartTime) totalInspectionBusyTime += (currentTime - iJob.inspectionStartTime);
-          inspectionFree++;
-
-          if (inspectionQueue.length > 0) {
-            inspectionFree--;
-            const next = inspectionQueue.shift()!;
-            next.inspectionStartTime = currentTime;
-            schedule(EventType.INSPECTION_FINISH, currentTime + getProcessTime('inspection', next.productType), next);
-          }
+        case EventType.REPAIR_FINISH: {
+          const stage = event.stage!;
+          const m = event.machine!;
+          const machine = machines[stage][m];
+          track(stage, m);
+          machine.down = false;
+          machine.downtime += observed(machine.downSince, currentTime);
+          scheduleFailure(stage, m);
+          resume(stage, m);
+          break;
+        }
 
-          if (packagingFree > 0) {
-            packagingFree--;
-            iJob.packagingStartTime = currentTime;
-            schedule(EventType.PACKAGING_FINISH, currentTime + getProcessTime('packaging', iJob.productType), iJob);
-          } else {
-            packagingQueue.push(iJob);
-          }
+        case EventType.SHIFT_CHANGE: {
+          const stage = event.stage!;
+          const working = schedules[stage]!.isWorking(currentTime);
+          machines[stage].forEach((machine, m) => {
+            track(stage, m);
+            machine.offShift = !working;
+            if (working) resume(stage, m);
+            else interrupt(stage, m);
+          });
+          scheduleShiftChange(stage);
           break;
+        }
 
-        case EventType.PACKAGING_FINISH:
-          currentWip--;
-          const pJob = event.job!;
-          pJob.packagingEndTime = currentTime;
-          if(pJob.packagingStartTime) totalPackagingBusyTime += (currentTime - pJob.packagingStartTime);
-          pJob.finished = true;
-          packagingFree++;
-
-          if (packagingQueue.length > 0) {
-            packagingFree--;
-            const next = packagingQueue.shift()!;
-            next.packagingStartTime = currentTime;
-            schedule(EventType.PACKAGING_FINISH, currentTime + getProcessTime('packaging', next.productType), next);
-          }
+        case EventType.OPERATOR_SHIFT: {
+          // Operators going off duty finish their running jobs first (overtime)
+          const g = event.group!;
+          trackOperators(g);
+          onDuty[g] = groupSchedules[g]!.isWorking(currentTime);
+          if (onDuty[g]) assignOperators(g);
+          scheduleOperatorShift(g);
           break;
+        }
+
+        case EventType.BATCH_TIMEOUT: {
+          const stage = event.stage!;
+          machines[stage].forEach((machine, m) => {
+            if (isAvailable(machine) && machine.jobs.length === 0) pullNext(stage, m);
+          });
+          break;
+        }
       }
-    }
 
-    // Single Run Stats Calculation
-    const completed = jobs.filter(j => j.finished);
-    let totalLeadTime = 0;
-    let totalDegradation = 0;
-    
-    // Arrays for this run
-    const waits = { m: [] as number[], i: [] as number[], p: [] as number[] };
-
-    jobs.forEach(job => {
-        if (job.mouldingStartTime) waits.m.push(job.mouldingStartTime - job.arrivalTime);
-        if (job.inspectionStartTime && job.mouldingEndTime) {
-            const wait = job.inspectionStartTime - job.mouldingEndTime;
-            waits.i.push(wait);
-            // Apply Degradation Threshold
-            const effectiveWait = Math.max(0, wait - config.degradationThreshold);
-            totalDegradation += effectiveWait * config.degradationCostPerMinute;
+      if (traceEvents) {
+        const job = event.type === EventType.ARRIVAL ? jobs[jobs.length - 1] : event.job;
+        traceEvents.push({
+          replication,
+          time: currentTime,
+          type: TRACE_TYPE[event.type],
+          jobId: job?.id,
+          product: job?.productType,
+          stageId: event.stage === undefined ? undefined : stages[event.stage].id,
+          machine: event.machine,
+          groupId: event.group === undefined ? undefined : groups[event.group].id,
+          queues: stageQueues.map(q => q.length),
+        });
+      }
+    };
+
+    let paused = false;
+    let clock = 0; // What observers see: the last event, or the time a run was advanced to
+    const finished = () => calendar.size === 0 || currentTime >= config.duration;
+
+    // Processes the next live event if it is due by `until`; false when there is none
+    const processNext = (until = Infinity): boolean => {
+        while (!finished() && calendar.peekTime()! <= until) {
+            const { time, event } = calendar.pop()!;
+            // Finish events of preempted jobs are stale
+            if (event.type === EventType.STAGE_FINISH && event.token !== machines[event.stage!][event.machine!].token) continue;
+            processEvent(time, event);
+            clock = currentTime;
+            return true;
         }
-        if (job.packagingStartTime && job.inspectionEndTime) waits.p.push(job.packagingStartTime - job.inspectionEndTime);
-        if (job.finished && job.packagingEndTime) totalLeadTime += (job.packagingEndTime - job.arrivalTime);
-    });
+        return false;
+    };
+
+    // Closes the books at the horizon, once
+    let results: SimulationStats | undefined;
+    const collectStats = (): SimulationStats => {
+      groups.forEach((_, g) => trackOperators(g, config.duration));
+      machines.forEach((list, stage) => list.forEach((_, m) => track(stage, m, config.duration)));
+      wipArea += currentWip * observed(lastEventTime, config.duration);
+      closeBins(config.duration);
 
-    const safeDiv = (n: number, d: number) => d === 0 ? 0 : n / d;
-    const avgLead = safeDiv(totalLeadTime, completed.length);
-    const avgCost = safeDiv(totalDegradation, jobs.length);
+      // Single Run Stats Calculation (observations recorded before the warm-up are dropped)
+      const measuredSpan = config.duration - warmUp;
+      const arrived = jobs.filter(j => j.arrivalTime >= warmUp);
+      const completed = jobs.filter(j => j.finished && j.completionTime! >= warmUp);
+      let totalLeadTime = 0;
+      let totalDegradation = 0;
     
-    // Service Level: % of inspection waits < 5 mins (Arbitrary 'Good' threshold for this metric)
-    const serviceThreshold = 5; 
-    const goodServiceCount = waits.i.filter(w => w < serviceThreshold).length;
-    const serviceLevel = safeDiv(goodServiceCount, waits.i.length);
-
-    // Calculate Percentiles Helper
-    const calcStats = (arr: number[]): WaitStats => {
-        if (arr.length === 0) return { avg: 0, p90: 0, max: 0 };
-        arr.sort((a, b) => a - b);
-        const sum = arr.reduce((a, b) => a + b, 0);
-        const p90Idx = Math.floor(arr.length * 0.9);
+      // Distributions for this run
+      const waits: Record<string, QuantileSketch> = Object.fromEntries(stages.map(s => [s.id, createSketch()]));
+      const costWaits: number[] = [];
+      // Work per stage; repeat visits of a job to the same stage only happen through rework
+      const processedWork = stages.map(() => 0);
+      const reworkWork = stages.map(() => 0);
+      let checkedJobs = 0;
+      let firstPassJobs = 0;
+      const lateness: number[] = [];
+      const latenessSketch = createSketch();
+      // Degradation cost (charged when the wait ends) and completions per time bin, after the warm-up
+      const costBins = newBins();
+      const completionBins = newBins();
+
+      jobs.forEach(job => {
+          const visited = new Set<string>();
+          let checked = false;
+          // Cost is charged to the same jobs avgCost divides by: those that arrived after the warm-up
+          const costed = job.arrivalTime >= warmUp;
+          job.visits.forEach((visit, v) => {
+              if (visit.startTime === undefined) return;
+              const stage = stageIndex.get(visit.stageId)!;
+              const repeat = visited.has(visit.stageId);
+              visited.add(visit.stageId);
+              if (visit.startTime < warmUp) return;
+              processedWork[stage] += visit.processTime;
+              if (repeat) reworkWork[stage] += visit.processTime;
+              if (stages[stage].qualityCheck && visit.endTime !== undefined) checked = true;
+              const wait = visit.startTime - visit.queueEntryTime;
+              addToSketch(waits[visit.stageId], wait);
+              if (stages[stageIndex.get(visit.stageId)!].degradationRisk) {
+                  // Parts held on a blocked upstream machine are already waiting for this stage
+                  const exposure = wait + (v > 0 ? job.visits[v - 1].blockedTime ?? 0 : 0);
+                  costWaits.push(exposure);
+                  if (!costed) return;
+                  // Apply Degradation Threshold
+                  const effectiveWait = Math.max(0, exposure - config.degradationThreshold);
+                  totalDegradation += effectiveWait * config.degradationCostPerMinute;
+                  costBins[binOf(visit.startTime)] += effectiveWait * config.degradationCostPerMinute;
+              }
+          });
+          if (job.finished && job.completionTime! >= warmUp) {
+              totalLeadTime += (job.completionTime! - job.arrivalTime);
+              lateness.push(job.completionTime! - job.dueDate);
+              addToSketch(latenessSketch, job.completionTime! - job.dueDate);
+              completionBins[binOf(job.completionTime!)]++;
+          } else if (!job.finished && !job.scrapped && job.dueDate < config.duration) {
+              // Still in the line but already overdue: late by at least the time past its due date
+              lateness.push(config.duration - job.dueDate);
+              addToSketch(latenessSketch, config.duration - job.dueDate);
+          }
+          if (checked) {
+              checkedJobs++;
+              if (job.reworks === 0 && !job.scrapped) firstPassJobs++;
+          }
+      });
+
+      const safeDiv = (n: number, d: number) => d === 0 ? 0 : n / d;
+      const avgLead = safeDiv(totalLeadTime, completed.length);
+      const avgCost = safeDiv(totalDegradation, arrived.length);
+      const onTimeRate = safeDiv(lateness.filter(l => l <= 0).length, lateness.length);
+      const avgTardiness = safeDiv(lateness.reduce((sum, l) => sum + Math.max(0, l), 0), lateness.length);
+      const maxTardiness = lateness.reduce((max, l) => Math.max(max, l), 0);
+    
+      // Service Level: % of degradation-risk waits < 5 mins (Arbitrary 'Good' threshold for this metric)
+      const serviceThreshold = 5; 
+      const goodServiceCount = costWaits.filter(w => w < serviceThreshold).length;
+      const serviceLevel = safeDiv(goodServiceCount, costWaits.length);
+
+      const scheduledTime = schedules.map(sched => sched ? sched.workingMinutes(warmUp, config.duration) : measuredSpan);
+
+      // Reliability: machines still down at the end are charged up to the horizon
+      const machineDowntime = machines.map(list => list.map(m =>
+          m.downtime + (m.down ? observed(m.downSince, config.duration) : 0)
+      ));
+      const reliability = Object.fromEntries(stages.map((s, i) => {
+          const downtime = machineDowntime[i].reduce((a, b) => a + b, 0);
+          const availability = 1 - safeDiv(downtime, measuredSpan * s.capacity);
+          return [s.id, {
+              availability,
+              downtime,
+              failures: failureCount[i],
+              jobsAffected: affectedJobs[i].size,
+              machineAvailability: machineDowntime[i].map(d => 1 - safeDiv(d, measuredSpan)),
+              availabilityCI: pointEstimate(availability),
+              downtimeCI: pointEstimate(downtime),
+              failuresCI: pointEstimate(failureCount[i]),
+              jobsAffectedCI: pointEstimate(affectedJobs[i].size),
+          }];
+      }));
+
+      const timeBreakdown = Object.fromEntries(stages.map((s, i) => {
+          const { busy, blocked, starved, forming, unstaffed, down } = stateTime[i];
+          const onShift = busy + blocked + starved + forming + unstaffed + down;
+          // The busy state covers whole jobs, changeovers included
+          const setup = Math.min(busy, setupTime[i]);
+          const shares = {
+              busy: safeDiv(busy - setup, onShift),
+              setup: safeDiv(setup, onShift),
+              blocked: safeDiv(blocked, onShift),
+              starved: safeDiv(starved, onShift),
+              forming: safeDiv(forming, onShift),
+              unstaffed: safeDiv(unstaffed, onShift),
+              down: safeDiv(down, onShift),
+          };
+          return [s.id, {
+              ...shares,
+              blockedTime: blocked,
+              busyCI: pointEstimate(shares.busy),
+              setupCI: pointEstimate(shares.setup),
+              blockedCI: pointEstimate(shares.blocked),
+              starvedCI: pointEstimate(shares.starved),
+              formingCI: pointEstimate(shares.forming),
+              unstaffedCI: pointEstimate(shares.unstaffed),
+              downCI: pointEstimate(shares.down),
+              blockedTimeCI: pointEstimate(blocked),
+          }];
+      }));
+
+      const calcStats = (sketch: QuantileSketch): WaitStats => {
+          const percentiles = waitPercentiles(sketch);
+          return {
+              avg: sketchMean(sketch),
+              ...percentiles,
+              avgCI: pointEstimate(sketchMean(sketch)),
+              p50CI: pointEstimate(percentiles.p50),
+              p90CI: pointEstimate(percentiles.p90),
+              p95CI: pointEstimate(percentiles.p95),
+              p99CI: pointEstimate(percentiles.p99),
+              maxCI: pointEstimate(percentiles.max),
+          };
+      };
+
+      const throughput = completed.length / (measuredSpan / 60); // Jobs per hour
+      const avgWip = safeDiv(wipArea, measuredSpan);
+      const firstPassYield = checkedJobs > 0 ? firstPassJobs / checkedJobs : 1;
+      const reworkLoad = Object.fromEntries(stages.map((s, i) => [s.id, safeDiv(reworkWork[i], processedWork[i])]));
+      // Relative to scheduled time, so closed shifts don't count as idle capacity
+      const machineUtilization = Object.fromEntries(stages.map((s, i) => [s.id, safeDiv(busyTime[i], scheduledTime[i] * s.capacity)]));
+      const setupUtilization = Object.fromEntries(stages.map((s, i) => [s.id, safeDiv(setupTime[i], scheduledTime[i] * s.capacity)]));
+      const changeovers = Object.fromEntries(stages.map((s, i) => [s.id, setupCount[i]]));
+      const pointEstimates = (values: Record<string, number>) =>
+          Object.fromEntries(Object.entries(values).map(([id, v]) => [id, pointEstimate(v)]));
+
+      // A single run has no spread, so every interval is just the estimate
+      return {
+          totalJobs: arrived.length,
+          totalJobsCI: pointEstimate(arrived.length),
+          completedJobs: completed.length,
+          completedJobsCI: pointEstimate(completed.length),
+          eventCount,
+          confidenceLevel: config.confidenceLevel ?? DEFAULT_CONFIDENCE_LEVEL,
+          throughput,
+          throughputCI: pointEstimate(throughput),
+          avgWip,
+          wipCI: pointEstimate(avgWip),
+          serviceLevel,
+          serviceLevelCI: pointEstimate(serviceLevel),
+          avgLeadTime: avgLead,
+          leadTimeCI: pointEstimate(avgLead),
+          totalDegradationCost: totalDegradation,
+          totalCostCI: pointEstimate(totalDegradation),
+          avgDegradationCostPerPart: avgCost,
+          costCI: pointEstimate(avgCost),
+          onTimeRate,
+          onTimeCI: pointEstimate(onTimeRate),
+          avgTardiness,
+          tardinessCI: pointEstimate(avgTardiness),
+          maxTardiness,
+          maxTardinessCI: pointEstimate(maxTardiness),
+          lateness: latenessSketch,
+          firstPassYield,
+          firstPassYieldCI: pointEstimate(firstPassYield),
+          scrapCount,
+          scrapCountCI: pointEstimate(scrapCount),
+          scrapCost,
+          scrapCostCI: pointEstimate(scrapCost),
+          reworkCount,
+          reworkCountCI: pointEstimate(reworkCount),
+          reworkLoad,
+          reworkLoadCI: pointEstimates(reworkLoad),
+          waitTimes: waits,
+          waitStats: Object.fromEntries(stages.map(s => [s.id, calcStats(waits[s.id])])),
+          machineUtilization,
+          machineUtilizationCI: pointEstimates(machineUtilization),
+          setupUtilization,
+          setupUtilizationCI: pointEstimates(setupUtilization),
+          changeovers,
+          changeoversCI: pointEstimates(changeovers),
+          timeBreakdown,
+          reliability,
+          batching: Object.fromEntries(stages.map((s, i) => {
+              const avgSize = safeDiv(batchedJobs[i], batchCount[i]);
+              const avgFill = s.batching ? avgSize / s.batching.maxSize : 0;
+              return [s.id, {
+                  batches: batchCount[i],
+                  avgSize,
+                  avgFill,
+                  formingTime: stateTime[i].forming,
+                  batchesCI: pointEstimate(batchCount[i]),
+                  avgSizeCI: pointEstimate(avgSize),
+                  avgFillCI: pointEstimate(avgFill),
+                  formingTimeCI: pointEstimate(stateTime[i].forming),
+              }];
+          })),
+          operators: Object.fromEntries(groups.map((group, g) => {
+              const onDutyTime = (groupSchedules[g]?.workingMinutes(warmUp, config.duration) ?? measuredSpan) * group.headcount;
+              const utilization = safeDiv(operatorBusyTime[g], onDutyTime + operatorOvertime[g]);
+              return [group.id, {
+                  utilization,
+                  busyTime: operatorBusyTime[g],
+                  overtime: operatorOvertime[g],
+                  jobs: operatorJobs[g],
+                  utilizationCI: pointEstimate(utilization),
+                  busyTimeCI: pointEstimate(operatorBusyTime[g]),
+                  overtimeCI: pointEstimate(operatorOvertime[g]),
+                  jobsCI: pointEstimate(operatorJobs[g]),
+              }];
+          })),
+          replicationValues: {
+              avgDegradationCostPerPart: [avgCost],
+              avgLeadTime: [avgLead],
+              throughput: [throughput],
+              avgWip: [avgWip],
+              serviceLevel: [serviceLevel],
+              onTimeRate: [onTimeRate],
+              avgTardiness: [avgTardiness],
+          },
+          welch: { binWidth, wip: wipLevel.bins },
+          timeSeries: {
+              binWidth,
+              wip: singleRun(wipLevel.bins),
+              queues: Object.fromEntries(stages.map((s, i) => [s.id, singleRun(queueLevels[i].bins)])),
+              busyMachines: Object.fromEntries(stages.map((s, i) => [s.id, singleRun(busyLevels[i].bins)])),
+              cumulativeCost: singleRun(cumulative(costBins)),
+              completions: singleRun(cumulative(completionBins)),
+          },
+          trace: traceEvents && {
+              stageIds: stages.map(s => s.id),
+              events: traceEvents,
+              jobs: jobs.map(job => ({ ...job, replication })),
+          },
+      };
+    };
+
+    const snapshot = (shippedSince = clock): SimulationSnapshot => {
+        const inFlight = jobs.filter(j => !j.finished && !j.scrapped);
         return {
-            avg: sum / arr.length,
-            p90: arr[p90Idx],
-            max: arr[arr.length - 1]
+            replication,
+            time: clock,
+            done: finished(),
+            eventCount,
+            wip: currentWip,
+            completedJobs: jobs.filter(j => j.finished).length,
+            scrappedJobs: jobs.filter(j => j.scrapped).length,
+            stages: stages.map((s, i) => ({
+                stageId: s.id,
+                queue: stageQueues[i].toArray().map(j => j.id),
+                machines: machines[i].map(machine => ({
+                    state: machineState(machine, idleState(i)),
+                    jobIds: machine.jobs.map(j => j.id),
+                    product: machine.lastProduct,
+                    operatorGroupId: machine.operator === undefined ? undefined : groups[machine.operator].id,
+                })),
+            })),
+            jobs: inFlight.map(job => {
+                const visit = currentVisit(job);
+                return {
+                    id: job.id,
+                    productType: job.productType,
+                    arrivalTime: job.arrivalTime,
+                    dueDate: job.dueDate,
+                    stageId: visit.stageId,
+                    status: visit.startTime === undefined ? 'queued' : visit.endTime === undefined ? 'processing' : 'blocked',
+                    fromStageId: job.visits[job.visits.length - 2]?.stageId,
+                    enteredAt: visit.queueEntryTime,
+                };
+            }),
+            shipped: jobs.filter(j => j.finished && j.completionTime! > shippedSince).map(job => ({
+                id: job.id,
+                productType: job.productType,
+                stageId: currentVisit(job).stageId,
+                time: job.completionTime!,
+            })),
+            operators: groups.map((g, i) => ({ groupId: g.id, busy: operatorsBusy[i], onDuty: onDuty[i] })),
         };
     };
 
     return {
-        totalJobs: jobs.length,
-        completedJobs: completed.length,
-        throughput: completed.length / (config.duration / 60), // Jobs per hour
-        avgWip: safeDiv(wipArea, config.duration),
-        serviceLevel,
-        avgLeadTime: avgLead,
-        leadTimeCI: { mean: avgLead, lower: avgLead, upper: avgLead }, // Single run has no CI
-        totalDegradationCost: totalDegradation,
-        avgDegradationCostPerPart: avgCost,
-        costCI: { mean: avgCost, lower: avgCost, upper: avgCost }, // Single run has no CI
-        waitTimes: { moulding: waits.m, inspection: waits.i, packaging: waits.p },
-        waitStats: { moulding: calcStats(waits.m), inspection: calcStats(waits.i), packaging: calcStats(waits.p) },
-        machineUtilization: {
-            moulding: safeDiv(totalMouldingBusyTime, config.duration * config.mouldingMachines),
-            inspection: safeDiv(totalInspectionBusyTime, config.duration * config.inspectionStations),
-            packaging: safeDiv(totalPackagingBusyTime, config.duration * config.packagingMachines)
-        }
+        replication,
+        get time() { return clock; },
+        get done() { return finished(); },
+        get paused() { return paused; },
+        step: () => !paused && processNext(),
+        runUntil: (time: number) => {
+            while (!paused && processNext(time));
+            if (!paused) clock = Math.max(clock, Math.min(time, config.duration));
+        },
+        pause: () => { paused = true; },
+        resume: () => { paused = false; },
+        snapshot,
+        stats: () => {
+            while (processNext());
+            results ??= collectStats();
+            return results;
+        },
     };
   }
 
-  private aggregateResults(runs: SimulationStats[]): SimulationStats {
+  // Combines per-replication results, in replication order
+  public aggregateResults(runs: SimulationStats[]): SimulationStats {
     // If only 1 run, return it directly
     if (runs.length === 1) return runs[0];
 
@@ -281,59 +1106,159 @@ export class SimulationEngine {
     const avg = (extractor: (s: SimulationStats) => number) => 
         runs.reduce((sum, s) => sum + extractor(s), 0) / count;
 
-    // Helper to calculate CI (95%)
-    // Formula: Mean +/- 1.96 * (StdDev / sqrt(N))
-    const calcCI = (extractor: (s: SimulationStats) => number): ConfidenceInterval => {
-        const values = runs.map(extractor);
-        const mean = values.reduce((a, b) => a + b, 0) / count;
-        const variance = values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / (count - 1 || 1);
-        const stdDev = Math.sqrt(variance);
-        const margin = 1.96 * (stdDev / Math.sqrt(count));
-        return { mean, lower: mean - margin, upper: mean + margin };
-    };
-
-    // Combine histograms (concatenate all data points)
-    const combineWaits = (key: 'moulding' | 'inspection' | 'packaging') => 
-        runs.reduce((arr, s) => [...arr, ...s.waitTimes[key]], [] as number[]);
-
-    // Combine WaitStats (Average the percentiles)
-    const avgWaitStat = (key: 'moulding' | 'inspection' | 'packaging'): WaitStats => ({
-        avg: avg(s => s.waitStats[key].avg),
-        p90: avg(s => s.waitStats[key].p90),
-        max: Math.max(...runs.map(s => s.waitStats[key].max)) // Max of Max
-    });
+    // Student-t interval over replications at the configured level
+    const confidenceLevel = this.config.confidenceLevel ?? DEFAULT_CONFIDENCE_LEVEL;
+    const calcCI = (extractor: (s: SimulationStats) => number): ConfidenceInterval =>
+        confidenceInterval(runs.map(extractor), confidenceLevel);
+
+    // Per-bin replication mean and band at the configured confidence level
+    const band = (extractor: (s: SimulationStats) => TimeSeries): TimeSeries => {
+        const bins = extractor(runs[0]).mean.map((_, bin) => calcCI(s => extractor(s).mean[bin]));
+        return { mean: bins.map(b => b.mean), lower: bins.map(b => b.lower), upper: bins.map(b => b.upper) };
+    };
+
+    const stageIds = this.config.line.stages.map(s => s.id);
+
+    // Pool the distributions of all replications
+    const waitTimes = Object.fromEntries(stageIds.map(id => [id, mergeSketches(runs.map(s => s.waitTimes[id]))]));
 
-    const waitTimes = {
-        moulding: combineWaits('moulding'),
-        inspection: combineWaits('inspection'),
-        packaging: combineWaits('packaging')
+    // Combine WaitStats: percentiles of the pooled waits, each with the spread of the per-run values around it
+    const avgWaitStat = (key: string): WaitStats => {
+        const pooled = waitPercentiles(waitTimes[key]);
+        const around = (percentile: keyof typeof pooled) =>
+            intervalAround(pooled[percentile], runs.map(s => s.waitStats[key][percentile]), confidenceLevel);
+        return {
+            avg: avg(s => s.waitStats[key].avg),
+            ...pooled,
+            avgCI: calcCI(s => s.waitStats[key].avg),
+            p50CI: around('p50'),
+            p90CI: around('p90'),
+            p95CI: around('p95'),
+            p99CI: around('p99'),
+            maxCI: around('max'),
+        };
     };
+    const stageCIs = (extractor: (s: SimulationStats) => Record<string, number>) =>
+        Object.fromEntries(stageIds.map(id => [id, calcCI(s => extractor(s)[id])]));
 
     return {
         totalJobs: Math.round(avg(s => s.totalJobs)),
+        totalJobsCI: calcCI(s => s.totalJobs),
+        eventCount: runs.reduce((sum, s) => sum + s.eventCount, 0),
         completedJobs: Math.round(avg(s => s.completedJobs)),
+        completedJobsCI: calcCI(s => s.completedJobs),
+        confidenceLevel,
         throughput: avg(s => s.throughput),
+        throughputCI: calcCI(s => s.throughput),
         avgWip: avg(s => s.avgWip),
+        wipCI: calcCI(s => s.avgWip),
         serviceLevel: avg(s => s.serviceLevel),
+        serviceLevelCI: calcCI(s => s.serviceLevel),
         
         avgLeadTime: avg(s => s.avgLeadTime),
         leadTimeCI: calcCI(s => s.avgLeadTime),
 
         totalDegradationCost: avg(s => s.totalDegradationCost),
+        totalCostCI: calcCI(s => s.totalDegradationCost),
         avgDegradationCostPerPart: avg(s => s.avgDegradationCostPerPart),
         costCI: calcCI(s => s.avgDegradationCostPerPart),
 
+        onTimeRate: avg(s => s.onTimeRate),
+        onTimeCI: calcCI(s => s.onTimeRate),
+        avgTardiness: avg(s => s.avgTardiness),
+        tardinessCI: calcCI(s => s.avgTardiness),
+        maxTardiness: avg(s => s.maxTardiness),
+        maxTardinessCI: calcCI(s => s.maxTardiness),
+        lateness: mergeSketches(runs.map(s => s.lateness)),
+
+        firstPassYield: avg(s => s.firstPassYield),
+        firstPassYieldCI: calcCI(s => s.firstPassYield),
+        scrapCount: avg(s => s.scrapCount),
+        scrapCountCI: calcCI(s => s.scrapCount),
+        scrapCost: avg(s => s.scrapCost),
+        scrapCostCI: calcCI(s => s.scrapCost),
+        reworkCount: avg(s => s.reworkCount),
+        reworkCountCI: calcCI(s => s.reworkCount),
+        reworkLoad: Object.fromEntries(stageIds.map(id => [id, avg(s => s.reworkLoad[id])])),
+        reworkLoadCI: stageCIs(s => s.reworkLoad),
+
         waitTimes,
-        waitStats: {
-            moulding: avgWaitStat('moulding'),
-            inspection: avgWaitStat('inspection'),
-            packaging: avgWaitStat('packaging')
+        waitStats: Object.fromEntries(stageIds.map(id => [id, avgWaitStat(id)])),
+        machineUtilization: Object.fromEntries(stageIds.map(id => [id, avg(s => s.machineUtilization[id])])),
+        machineUtilizationCI: stageCIs(s => s.machineUtilization),
+        setupUtilization: Object.fromEntries(stageIds.map(id => [id, avg(s => s.setupUtilization[id])])),
+        setupUtilizationCI: stageCIs(s => s.setupUtilization),
+        changeovers: Object.fromEntries(stageIds.map(id => [id, avg(s => s.changeovers[id])])),
+        changeoversCI: stageCIs(s => s.changeovers),
+        timeBreakdown: Object.fromEntries(stageIds.map(id => [id, {
+            busy: avg(s => s.timeBreakdown[id].busy),
+            setup: avg(s => s.timeBreakdown[id].setup),
+            blocked: avg(s => s.timeBreakdown[id].blocked),
+            starved: avg(s => s.timeBreakdown[id].starved),
+            forming: avg(s => s.timeBreakdown[id].forming),
+            unstaffed: avg(s => s.timeBreakdown[id].unstaffed),
+            down: avg(s => s.timeBreakdown[id].down),
+            blockedTime: avg(s => s.timeBreakdown[id].blockedTime),
+            busyCI: calcCI(s => s.timeBreakdown[id].busy),
+            setupCI: calcCI(s => s.timeBreakdown[id].setup),
+            blockedCI: calcCI(s => s.timeBreakdown[id].blocked),
+            starvedCI: calcCI(s => s.timeBreakdown[id].starved),
+            formingCI: calcCI(s => s.timeBreakdown[id].forming),
+            unstaffedCI: calcCI(s => s.timeBreakdown[id].unstaffed),
+            downCI: calcCI(s => s.timeBreakdown[id].down),
+            blockedTimeCI: calcCI(s => s.timeBreakdown[id].blockedTime),
+        }])),
+        reliability: Object.fromEntries(this.config.line.stages.map(stage => [stage.id, {
+            availability: avg(s => s.reliability[stage.id].availability),
+            downtime: avg(s => s.reliability[stage.id].downtime),
+            failures: avg(s => s.reliability[stage.id].failures),
+            jobsAffected: avg(s => s.reliability[stage.id].jobsAffected),
+            machineAvailability: Array.from({ length: stage.capacity }, (_, m) => avg(s => s.reliability[stage.id].machineAvailability[m])),
+            availabilityCI: calcCI(s => s.reliability[stage.id].availability),
+            downtimeCI: calcCI(s => s.reliability[stage.id].downtime),
+            failuresCI: calcCI(s => s.reliability[stage.id].failures),
+            jobsAffectedCI: calcCI(s => s.reliability[stage.id].jobsAffected),
+        }])),
+        batching: Object.fromEntries(stageIds.map(id => [id, {
+            batches: avg(s => s.batching[id].batches),
+            avgSize: avg(s => s.batching[id].avgSize),
+            avgFill: avg(s => s.batching[id].avgFill),
+            formingTime: avg(s => s.batching[id].formingTime),
+            batchesCI: calcCI(s => s.batching[id].batches),
+            avgSizeCI: calcCI(s => s.batching[id].avgSize),
+            avgFillCI: calcCI(s => s.batching[id].avgFill),
+            formingTimeCI: calcCI(s => s.batching[id].formingTime),
+        }])),
+        operators: Object.fromEntries((this.config.line.operators ?? []).map(({ id }) => [id, {
+            utilization: avg(s => s.operators[id].utilization),
+            busyTime: avg(s => s.operators[id].busyTime),
+            overtime: avg(s => s.operators[id].overtime),
+            jobs: avg(s => s.operators[id].jobs),
+            utilizationCI: calcCI(s => s.operators[id].utilization),
+            busyTimeCI: calcCI(s => s.operators[id].busyTime),
+            overtimeCI: calcCI(s => s.operators[id].overtime),
+            jobsCI: calcCI(s => s.operators[id].jobs),
+        }])),
+        welch: {
+            binWidth: runs[0].welch.binWidth,
+            wip: runs[0].welch.wip.map((_, bin) => avg(s => s.welch.wip[bin])),
+        },
+        timeSeries: {
+            binWidth: runs[0].timeSeries.binWidth,
+            wip: band(s => s.timeSeries.wip),
+            queues: Object.fromEntries(stageIds.map(id => [id, band(s => s.timeSeries.queues[id])])),
+            busyMachines: Object.fromEntries(stageIds.map(id => [id, band(s => s.timeSeries.busyMachines[id])])),
+            cumulativeCost: band(s => s.timeSeries.cumulativeCost),
+            completions: band(s => s.timeSeries.completions),
+        },
+        precision: this.config.precision && precisionOf(runs, this.config.precision, confidenceLevel),
+        replicationValues: Object.fromEntries((Object.keys(runs[0].replicationValues) as TrackedKpi[])
+            .map(kpi => [kpi, runs.flatMap(s => s.replicationValues[kpi])])) as Record<TrackedKpi, number[]>,
+        trace: runs[0].trace && {
+            stageIds,
+            events: runs.flatMap(s => s.trace!.events),
+            jobs: runs.flatMap(s => s.trace!.jobs),
         },
-        machineUtilization: {
-            moulding: avg(s => s.machineUtilization.moulding),
-            inspection: avg(s => s.machineUtilization.inspection),
-            packaging: avg(s => s.machineUtilization.packaging),
-        }
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { BenchmarkResult, SimulationConfig, SimulationStats } from "../types";
+import { SimulationEngine } from "./simulationEngine";
+
+// Messages exchanged with simulation.worker.ts: one replication per task, or a whole timed run
+export interface ReplicationTask {
+  config: SimulationConfig;
+  replication: number;
+}
+
+export interface BenchmarkTask {
+  config: SimulationConfig;
+  benchmark: true;
+}
+
+export type ReplicationReply = { stats: SimulationStats } | { error: string };
+export type BenchmarkReply = { benchmark: BenchmarkResult } | { error: string };
+
+export class SimulationCancelledError extends Error {
+  constructor() {
+    super('Simulation cancelled');
+    this.name = 'SimulationCancelledError';
+  }
+}
+
+// Leave a core for the UI; more than a few workers rarely pays off for runs this size
+const POOL_SIZE = Math.max(1, Math.min(4, (typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2) - 1));
+
+// Runs replications on background workers so long runs and sweeps don't freeze the page.
+// Workers are started on first use and torn down on cancel.
+export class SimulationPool {
+  private size: number;
+  private workers: Worker[] = [];
+  private cancelCurrent?: () => void;
+
+  constructor(size = POOL_SIZE) {
+    this.size = size;
+  }
+
+  // Runs every config with all of its replications, spread over the workers. A config with a
+  // precision target keeps going until a leading run of its replications meets it; anything
+  // finished beyond that is dropped, so results are identical to SimulationEngine.run().
+  // Progress counts replications; `finished` tells which configs have all they need.
+  run(configs: SimulationConfig[], onProgress?: (done: number, total: number, finished: readonly boolean[]) => void): Promise<SimulationStats[]> {
+    this.cancel();
+    const engines = configs.map(config => new SimulationEngine(config));
+    const limits = engines.map(engine => engine.replicationRange().max);
+    const results: SimulationStats[][] = configs.map(() => []);
+    const settled = configs.map(() => false);
+    const checked = configs.map(() => 0); // Leading replications already tested
+    const dispatched = configs.map(() => 0);
+
+    const nextTask = (): { c: number; replication: number } | undefined => {
+      const c = configs.findIndex((_, c) => !settled[c] && dispatched[c] < limits[c]);
+      return c < 0 ? undefined : { c, replication: dispatched[c]++ };
+    };
+    const record = (c: number, replication: number, stats: SimulationStats) => {
+      results[c][replication] = stats;
+      for (let n = checked[c] + 1; n <= limits[c] && results[c][n - 1] && !settled[c]; n++) {
+        checked[c] = n;
+        if (engines[c].enoughReplications(results[c].slice(0, n))) {
+          settled[c] = true;
+          results[c].length = n;
+        }
+      }
+      // Settled configs count what they used, the rest their cap
+      const done = results.reduce((sum, r) => sum + r.filter(Boolean).length, 0);
+      const total = results.reduce((sum, r, i) => sum + (settled[i] ? r.length : limits[i]), 0);
+      onProgress?.(done, total, settled);
+    };
+    const aggregate = () => engines.map((engine, c) => engine.aggregateResults(results[c]));
+
+    if (typeof Worker === 'undefined') {
+      for (let task = nextTask(); task; task = nextTask()) {
+        record(task.c, task.replication, engines[task.c].runReplication(task.replication));
+      }
+      return Promise.resolve(aggregate());
+    }
+
+    return new Promise((resolve, reject) => {
+      let inFlight = 0;
+      const fail = (error: Error) => {
+        this.terminate();
+        this.cancelCurrent = undefined;
+        reject(error);
+      };
+      const finish = () => {
+        // Replications still running weren't needed; their replies must not reach the next run
+        if (inFlight > 0) this.terminate();
+        this.cancelCurrent = undefined;
+        resolve(aggregate());
+      };
+      this.cancelCurrent = () => fail(new SimulationCancelledError());
+
+      const dispatch = (worker: Worker) => {
+        const task = nextTask();
+        if (!task) return;
+        inFlight++;
+        worker.onmessage = (e: MessageEvent<ReplicationReply>) => {
+          inFlight--;
+          const reply = e.data;
+          if ('error' in reply) return fail(new Error(reply.error));
+          if (!settled[task.c]) record(task.c, task.replication, reply.stats);
+          if (settled.every(Boolean)) finish();
+          else dispatch(worker);
+        };
+        worker.onerror = (e) => fail(new Error(e.message || 'Simulation worker failed'));
+        const message: ReplicationTask = { config: configs[task.c], replication: task.replication };
+        worker.postMessage(message);
+      };
+      this.startWorkers().forEach(dispatch);
+    });
+  }
+
+  // Times a full run (all replications) on a single worker, so the figure is comparable with
+  // SimulationEngine.benchmark() on the main thread without freezing the page
+  benchmark(config: SimulationConfig): Promise<BenchmarkResult> {
+    this.cancel();
+    if (typeof Worker === 'undefined') return Promise.resolve(new SimulationEngine(config).benchmark());
+
+    return new Promise((resolve, reject) => {
+      const fail = (error: Error) => {
+        this.terminate();
+        this.cancelCurrent = undefined;
+        reject(error);
+      };
+      this.cancelCurrent = () => fail(new SimulationCancelledError());
+
+      const [worker] = this.startWorkers();
+      worker.onmessage = (e: MessageEvent<BenchmarkReply>) => {
+        const reply = e.data;
+        if ('error' in reply) return fail(new Error(reply.error));
+        this.cancelCurrent = undefined;
+        resolve(reply.benchmark);
+      };
+      worker.onerror = (e) => fail(new Error(e.message || 'Simulation worker failed'));
+      const message: BenchmarkTask = { config, benchmark: true };
+      worker.postMessage(message);
+    });
+  }
+
+  // Stops the running job, if any; its promise rejects with SimulationCancelledError
+  cancel(): void {
+    this.cancelCurrent?.();
+  }
+
+  private startWorkers(): Worker[] {
+    if (this.workers.length === 0) {
+      this.workers = Array.from({ length: this.size }, () =>
+        new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' }));
+    }
+    return this.workers;
+  }
+
+  private terminate(): void {
+    this.workers.forEach(w => w.terminate());
+    this.workers = [];
+  }
+}
@@ -0,0 +1,86 @@
+import { ConfidenceInterval, ConfidenceLevel, TrackedKpi, PrecisionResult, PrecisionTarget, SimulationStats } from "../types";
+
+export const CONFIDENCE_LEVELS: ConfidenceLevel[] = [0.9, 0.95, 0.99];
+export const DEFAULT_CONFIDENCE_LEVEL: ConfidenceLevel = 0.95;
+
+// Two-sided Student-t critical values for 1..30 degrees of freedom
+const T_TABLE: Record<ConfidenceLevel, number[]> = {
+  0.9: [6.314, 2.920, 2.353, 2.132, 2.015, 1.943, 1.895, 1.860, 1.833, 1.812, 1.796, 1.782, 1.771, 1.761, 1.753,
+    1.746, 1.740, 1.734, 1.729, 1.725, 1.721, 1.717, 1.714, 1.711, 1.708, 1.706, 1.703, 1.701, 1.699, 1.697],
+  0.95: [12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.160, 2.145, 2.131,
+    2.120, 2.110, 2.101, 2.093, 2.086, 2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042],
+  0.99: [63.657, 9.925, 5.841, 4.604, 4.032, 3.707, 3.499, 3.355, 3.250, 3.169, 3.106, 3.055, 3.012, 2.977, 2.947,
+    2.921, 2.898, 2.878, 2.861, 2.845, 2.831, 2.819, 2.807, 2.797, 2.787, 2.779, 2.771, 2.763, 2.756, 2.750],
+};
+
+// Matching standard normal quantiles (the limit for many degrees of freedom)
+const Z_CRITICAL: Record<ConfidenceLevel, number> = { 0.9: 1.6449, 0.95: 1.9600, 0.99: 2.5758 };
+
+// Critical value for a two-sided interval at `level` with `df` degrees of freedom.
+// Beyond the table, a Cornish-Fisher expansion around z is accurate to the third decimal.
+export const tCritical = (level: ConfidenceLevel, df: number): number => {
+  if (df <= T_TABLE[level].length) return T_TABLE[level][Math.max(1, Math.floor(df)) - 1];
+  const z = Z_CRITICAL[level];
+  const g1 = (z ** 3 + z) / 4;
+  const g2 = (5 * z ** 5 + 16 * z ** 3 + 3 * z) / 96;
+  const g3 = (3 * z ** 7 + 19 * z ** 5 + 17 * z ** 3 - 15 * z) / 384;
+  return z + g1 / df + g2 / df ** 2 + g3 / df ** 3;
+};
+
+// A single observation has no interval
+export const pointEstimate = (value: number): ConfidenceInterval => ({ mean: value, lower: value, upper: value });
+
+// Mean +/- t * s / sqrt(n) over independent replications
+export const confidenceInterval = (values: number[], level: ConfidenceLevel): ConfidenceInterval => {
+  const n = values.length;
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  if (n < 2) return pointEstimate(mean);
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1);
+  const margin = tCritical(level, n - 1) * Math.sqrt(variance / n);
+  return { mean, lower: mean - margin, upper: mean + margin };
+};
+
+// The replications' spread, centred on an estimate pooled from all of them (e.g. a merged-sketch quantile).
+// Meant for times, which can't go below 0, so the lower bound stops there.
+export const intervalAround = (center: number, values: number[], level: ConfidenceLevel): ConfidenceInterval => {
+  const { mean, upper } = confidenceInterval(values, level);
+  const margin = upper - mean;
+  return { mean: center, lower: Math.max(0, center - margin), upper: center + margin };
+};
+
+// A precision target never stops before this many replications: fewer give no usable spread
+export const PILOT_REPLICATIONS = 3;
+
+interface TrackedKpiInfo {
+  label: string;
+  better: 'lower' | 'higher';
+  unit: string; // Display unit, after scaling
+  scale: number; // Display units per KPI unit
+  value: (stats: SimulationStats) => number;
+  ci: (stats: SimulationStats) => ConfidenceInterval;
+}
+
+export const TRACKED_KPIS: Record<TrackedKpi, TrackedKpiInfo> = {
+  avgDegradationCostPerPart: { label: 'Cost / part', better: 'lower', unit: '$/part', scale: 1, value: s => s.avgDegradationCostPerPart, ci: s => s.costCI },
+  avgLeadTime: { label: 'Lead time', better: 'lower', unit: 'min', scale: 1, value: s => s.avgLeadTime, ci: s => s.leadTimeCI },
+  throughput: { label: 'Throughput', better: 'higher', unit: 'jobs/hr', scale: 1, value: s => s.throughput, ci: s => s.throughputCI },
+  avgWip: { label: 'Avg WIP', better: 'lower', unit: 'jobs', scale: 1, value: s => s.avgWip, ci: s => s.wipCI },
+  serviceLevel: { label: 'Service level', better: 'higher', unit: '%-pts', scale: 100, value: s => s.serviceLevel, ci: s => s.serviceLevelCI },
+  onTimeRate: { label: 'On-time rate', better: 'higher', unit: '%-pts', scale: 100, value: s => s.onTimeRate, ci: s => s.onTimeCI },
+  avgTardiness: { label: 'Avg tardiness', better: 'lower', unit: 'min', scale: 1, value: s => s.avgTardiness, ci: s => s.tardinessCI },
+};
+
+// How tight the interval of the target KPI is over the given replications
+export const precisionOf = (runs: SimulationStats[], target: PrecisionTarget, level: ConfidenceLevel): PrecisionResult => {
+  const ci = confidenceInterval(runs.map(TRACKED_KPIS[target.kpi].value), level);
+  const halfWidth = (ci.upper - ci.lower) / 2;
+  // A zero mean with any spread is never relatively precise
+  const relativeHalfWidth = halfWidth === 0 ? 0 : ci.mean === 0 ? Infinity : halfWidth / Math.abs(ci.mean);
+  return {
+    kpi: target.kpi,
+    replications: runs.length,
+    halfWidth,
+    relativeHalfWidth,
+    reached: runs.length >= PILOT_REPLICATIONS && (target.relative ? relativeHalfWidth : halfWidth) <= target.tolerance,
+  };
+};
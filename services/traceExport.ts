@@ -0,0 +1,40 @@
+import { SimulationTrace, TracedJob } from "../types";
+
+// Quotes a CSV cell when needed; missing values stay empty
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]): string =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+
+const jobStatus = (job: TracedJob) => job.finished ? 'finished' : job.scrapped ? 'scrapped' : 'in process';
+
+// One row per event, with a queue-length column per stage
+export const traceEventsToCsv = (trace: SimulationTrace): string =>
+  toCsv(
+    ['replication', 'time', 'type', 'job', 'product', 'stage', 'machine', 'group', ...trace.stageIds.map(id => `queue_${id}`)],
+    trace.events.map(e => [e.replication, e.time, e.type, e.jobId, e.product, e.stageId, e.machine, e.groupId, ...e.queues]),
+  );
+
+export const traceEventsToJsonLines = (trace: SimulationTrace): string =>
+  trace.events.map(e => JSON.stringify({
+    ...e,
+    queues: Object.fromEntries(trace.stageIds.map((id, i) => [id, e.queues[i]])),
+  })).join('\n') + '\n';
+
+// One row per stage visit, repeating the job's own fields
+export const tracedJobsToCsv = (trace: SimulationTrace): string =>
+  toCsv(
+    ['replication', 'job', 'product', 'arrival', 'due_date', 'completion', 'status', 'reworks',
+      'visit', 'stage', 'queue_entry', 'start', 'end', 'process_time', 'setup_time', 'blocked_time'],
+    trace.jobs.flatMap(job => job.visits.map((v, i) => [
+      job.replication, job.id, job.productType, job.arrivalTime, job.dueDate, job.completionTime, jobStatus(job), job.reworks,
+      i + 1, v.stageId, v.queueEntryTime, v.startTime, v.endTime, v.processTime, v.setupTime, v.blockedTime,
+    ])),
+  );
+
+export const tracedJobsToJsonLines = (trace: SimulationTrace): string =>
+  trace.jobs.map(job => JSON.stringify(job)).join('\n') + '\n';
@@ -5,35 +5,298 @@ export enum ProductType {
   TypeD = "Type D",
 }
 
+export const PRODUCT_TYPES: ProductType[] = [ProductType.TypeA, ProductType.TypeB, ProductType.TypeC, ProductType.TypeD];
+
+// Queue discipline used to pick the next job when a machine frees up
+export type DispatchRule = 'fifo' | 'lifo' | 'spt' | 'edd' | 'priority' | 'cr' | 'sst';
+
+// Setup minutes to switch a machine from one product (outer key) to the next (inner key)
+export type ChangeoverMatrix = Record<ProductType, Record<ProductType, number>>;
+
+// Random breakdowns, drawn independently for every machine of a stage
+export interface FailureModel {
+  timeBetweenFailures: Distribution; // Up-time from a repair to the next failure (minutes)
+  timeToRepair: Distribution;
+  // preemptive: the running job is interrupted and resumes after the repair;
+  // non-preemptive: the machine finishes its job before going down
+  handling: 'preemptive' | 'non-preemptive';
+}
+
+// Weekly working pattern of a stage. Time 0 is Monday 00:00.
+export interface ShiftCalendar {
+  workingDays: boolean[]; // 7 flags, Monday first
+  shifts: { start: number; end: number }[]; // Daily working windows, minutes after midnight
+}
+
+// Piecewise-constant arrival rate: base rate x hourly[hour of day] x daily[day of week]
+export interface ArrivalRateProfile {
+  hourly: number[]; // 24 multipliers, hour 0 = midnight
+  daily: number[]; // 7 multipliers, Monday first
+}
+
+// Check at the end of a stage, per product; parts neither reworked nor scrapped pass
+export interface QualityCheck {
+  rework: Record<ProductType, number>; // Probability the part goes back for rework
+  scrap: Record<ProductType, number>; // Probability the part is scrapped
+  reworkStage: string; // Stage id rework restarts from; the routing is repeated from there
+  scrapCost: number; // Per scrapped part
+}
+
+// Batch server: a machine processes several queued parts at once, taking as long as the slowest of them
+export interface BatchPolicy {
+  minSize: number; // Parts needed to start a batch before the timeout
+  maxSize: number; // Parts per batch, e.g. carton capacity
+  maxWait: number; // Minutes the oldest part may wait before a partial batch starts anyway
+  sameProduct: boolean; // Only batch parts of one product together
+}
+
+export interface StageDefinition {
+  id: string; // Stable key used by routings and stats, e.g. "moulding"
+  name: string; // Display name, e.g. "Moulding"
+  capacity: number; // Number of parallel machines / stations
+  kind: 'machine' | 'station'; // Only affects how the diagram draws it
+  degradationRisk?: boolean; // Waiting in front of this stage incurs degradation cost
+  dispatchRule?: DispatchRule; // Defaults to FIFO
+  failures?: FailureModel; // Omitted = machines never fail
+  calendar?: ShiftCalendar; // Omitted = always staffed; jobs in process pause off-shift
+  changeovers?: ChangeoverMatrix; // Omitted = no setups; a machine's first job never needs one
+  qualityCheck?: QualityCheck; // Omitted = every part passes
+  batching?: BatchPolicy; // Omitted = one job at a time; batches form in arrival order, ignoring dispatchRule
+  needsOperator?: boolean; // A job (or batch) only starts when a qualified operator is free too
+  // Jobs that fit in the queue in front of the stage, not counting those in process.
+  // Omitted = unlimited. New orders and rework sent back by a quality check always enter;
+  // only transfers from an upstream stage block.
+  bufferCapacity?: number;
+}
+
+// Interchangeable operators sharing skills and a working pattern, e.g. the day crew.
+// An operator stays with a job from its start to its finish, interruptions included,
+// and finishes a running job before going off duty.
+export interface OperatorGroup {
+  id: string;
+  name: string;
+  headcount: number;
+  skills: string[]; // Stage ids the group is qualified to run
+  calendar?: ShiftCalendar; // Omitted = always on duty
+}
+
+export interface ProductionLine {
+  stages: StageDefinition[];
+  routings: Record<ProductType, string[]>; // Ordered stage ids visited by each product
+  operators?: OperatorGroup[]; // Labour pool for stages that need an operator
+}
+
+// Probability distributions for process times and inter-arrival times (minutes).
+// Plain data so that configs stay serializable.
+export type Distribution =
+  | { kind: 'exponential'; mean: number }
+  | { kind: 'deterministic'; value: number }
+  | { kind: 'uniform'; min: number; max: number }
+  | { kind: 'triangular'; min: number; mode: number; max: number }
+  | { kind: 'normal'; mean: number; stdDev: number; min?: number; max?: number } // Truncated when bounds are set
+  | { kind: 'lognormal'; mean: number; stdDev: number } // Moments of the variable itself, not of its log
+  | { kind: 'gamma'; shape: number; scale: number }
+  | { kind: 'erlang'; k: number; mean: number }
+  | { kind: 'weibull'; shape: number; scale: number }
+  | { kind: 'empirical'; values: number[]; weights: number[] };
+
+export type DistributionKind = Distribution['kind'];
+
+// Process time distribution, per product and stage id
+export type ProcessTimeTable = Record<ProductType, Record<string, Distribution>>;
+
+// How a job's due date is set when it arrives
+export type DueDatePolicy =
+  | { kind: 'fixed'; allowance: number } // Arrival + allowance minutes
+  | { kind: 'twk'; factor: number } // Arrival + factor x expected total work content
+  | { kind: 'product'; leadTime: Record<ProductType, number> }; // Arrival + quoted lead time per product
+
 export interface SimulationConfig {
   duration: number; // in minutes
-  mouldingMachines: number;
-  inspectionStations: number;
-  packagingMachines: number;
-  arrivalIntervalMean: number; // minutes
+  warmUp: number; // Minutes at the start of each run excluded from all KPIs
+  line: ProductionLine;
+  productMix: Record<ProductType, number>; // Relative arrival weight per product
+  productPriority: Record<ProductType, number>; // Rank for the priority rule, 1 = most urgent
+  processTimes: ProcessTimeTable;
+  arrivalInterval: Distribution; // Time between orders, minutes
+  arrivalProfile?: ArrivalRateProfile; // Omitted = constant rate
+  dueDates: DueDatePolicy;
   degradationCostPerMinute: number;
   degradationThreshold: number; // Grace period in minutes
   replications: number; // Number of simulation runs
   seed: number;
+  trace?: boolean; // Record every event and job (for debugging and export; slows runs down)
+  confidenceLevel?: ConfidenceLevel; // Of every interval in the results, default 0.95
+  precision?: PrecisionTarget; // Omitted = run exactly `replications` times
+}
+
+// KPIs kept per replication, for precision targets and scenario comparison
+export type TrackedKpi = 'avgDegradationCostPerPart' | 'avgLeadTime' | 'throughput' | 'avgWip' | 'serviceLevel' | 'onTimeRate' | 'avgTardiness';
+
+// Sequential mode: starting from `replications`, keep adding replications until the
+// confidence interval of `kpi` is narrow enough, or the cap is hit
+export interface PrecisionTarget {
+  kpi: TrackedKpi;
+  tolerance: number; // Largest acceptable half-width
+  relative: boolean; // Tolerance is a fraction of the mean rather than KPI units
+  maxReplications: number;
 }
 
 export interface Job {
   id: number;
   productType: ProductType;
   arrivalTime: number;
-  mouldingStartTime?: number;
-  mouldingEndTime?: number;
-  inspectionStartTime?: number; // Wait time before this causes degradation
-  inspectionEndTime?: number;
-  packagingStartTime?: number;
-  packagingEndTime?: number;
+  dueDate: number;
+  route: string[]; // Stage ids this job visits, in order
+  routeStep: number; // Index into route of the current / next stage
+  visits: StageVisit[];
+  completionTime?: number;
   finished: boolean;
+  reworks: number; // Times sent back by a quality check
+  scrapped: boolean;
+}
+
+export interface StageVisit {
+  stageId: string;
+  queueEntryTime: number; // Arrival in the stage's queue
+  processTime: number; // Sampled on queue entry so rules such as SPT can see it
+  setupTime?: number; // Changeover done on the machine before processing, if any
+  startTime?: number;
+  endTime?: number;
+  blockedTime?: number; // Held on the machine after endTime because the next buffer was full
+}
+
+// Distribution of a stream of values in bounded memory, see services/quantileSketch.ts.
+// Plain data so results can cross worker boundaries.
+export interface QuantileSketch {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  zero: number; // Values too small to bucket
+  positive: Record<number, number>; // Log bucket index -> count
+  negative: Record<number, number>;
 }
 
+// Percentiles are of all waits pooled over replications
 export interface WaitStats {
   avg: number;
+  p50: number;
   p90: number;
+  p95: number;
+  p99: number;
   max: number;
+  avgCI: ConfidenceInterval;
+  p50CI: ConfidenceInterval; // Percentile intervals: centred on the pooled percentile, spread of the per-replication ones
+  p90CI: ConfidenceInterval;
+  p95CI: ConfidenceInterval;
+  p99CI: ConfidenceInterval;
+  maxCI: ConfidenceInterval;
+}
+
+export interface StageReliability {
+  availability: number; // Fraction of machine-time the stage was up
+  downtime: number; // Machine-minutes spent down
+  failures: number;
+  jobsAffected: number; // Jobs in process or queued at the stage when a machine went down
+  machineAvailability: number[]; // Per machine, same order as the diagram
+  availabilityCI: ConfidenceInterval;
+  downtimeCI: ConfidenceInterval;
+  failuresCI: ConfidenceInterval;
+  jobsAffectedCI: ConfidenceInterval;
+}
+
+// How a stage's on-shift machine time was spent; the fractions sum to 1
+export interface StageTimeBreakdown {
+  busy: number; // Processing only
+  setup: number; // Changeovers between products
+  blocked: number; // Holding a finished job until the next buffer has room
+  starved: number; // Idle with nothing to work on
+  forming: number; // Idle while parts wait for a batch to fill
+  unstaffed: number; // Idle with work queued but no qualified operator free
+  down: number;
+  blockedTime: number; // Machine-minutes blocked
+  busyCI: ConfidenceInterval;
+  setupCI: ConfidenceInterval;
+  blockedCI: ConfidenceInterval;
+  starvedCI: ConfidenceInterval;
+  formingCI: ConfidenceInterval;
+  unstaffedCI: ConfidenceInterval;
+  downCI: ConfidenceInterval;
+  blockedTimeCI: ConfidenceInterval;
+}
+
+// Input for Welch's method: WIP averaged per time bin over the whole run
+// (warm-up included), then over replications
+export interface WelchSeries {
+  binWidth: number; // Minutes
+  wip: number[];
+}
+
+// Per-bin mean over replications with a band at the configured confidence level (lower = upper = mean for a single run)
+export interface TimeSeries {
+  mean: number[];
+  lower: number[];
+  upper: number[];
+}
+
+// Time-weighted averages per time bin over the whole run (warm-up included); cost and completions
+// are running totals of what happened after the warm-up, so they end at the run's totals
+export interface TimeSeriesSet {
+  binWidth: number; // Minutes, same bins as WelchSeries
+  wip: TimeSeries;
+  queues: Record<string, TimeSeries>; // Jobs waiting per stage
+  busyMachines: Record<string, TimeSeries>; // Machines processing (or setting up) per stage
+  cumulativeCost: TimeSeries; // Degradation cost, charged when the wait ends
+  completions: TimeSeries;
+}
+
+export interface BatchStats {
+  batches: number;
+  avgSize: number;
+  avgFill: number; // Average size / maximum size
+  formingTime: number; // Machine-minutes idle waiting for batches to fill
+  batchesCI: ConfidenceInterval;
+  avgSizeCI: ConfidenceInterval;
+  avgFillCI: ConfidenceInterval;
+  formingTimeCI: ConfidenceInterval;
+}
+
+export interface OperatorStats {
+  utilization: number; // Busy share of on-duty operator time (overtime included)
+  busyTime: number; // Operator-minutes on jobs
+  overtime: number; // Operator-minutes spent finishing jobs after going off duty
+  jobs: number; // Jobs (or batches) started
+  utilizationCI: ConfidenceInterval;
+  busyTimeCI: ConfidenceInterval;
+  overtimeCI: ConfidenceInterval;
+  jobsCI: ConfidenceInterval;
+}
+
+export type TraceEventType = 'arrival' | 'finish' | 'failure' | 'repair' | 'shift' | 'batchTimeout' | 'operatorShift';
+
+// One processed event, warm-up included
+export interface TraceEvent {
+  replication: number;
+  time: number;
+  type: TraceEventType;
+  jobId?: number; // Arriving job, or the (lead) job that finished
+  product?: ProductType;
+  stageId?: string;
+  machine?: number; // Index within the stage, 0 = first
+  groupId?: string; // Operator group, for operator shift events
+  queues: number[]; // Jobs queued per stage after the event, in SimulationTrace.stageIds order
+}
+
+export interface TracedJob extends Job {
+  replication: number;
+}
+
+// Full history of a run, only present when SimulationConfig.trace is on
+export interface SimulationTrace {
+  stageIds: string[];
+  events: TraceEvent[];
+  jobs: TracedJob[]; // Every job that arrived, including those still in process at the end
 }
 
 export interface ConfidenceInterval {
@@ -42,48 +305,178 @@ export interface ConfidenceInterval {
   upper: number;
 }
 
+// Outcome of a precision-target run
+export interface PrecisionResult {
+  kpi: TrackedKpi;
+  replications: number; // Replications it took (the cap if the target wasn't met)
+  halfWidth: number;
+  relativeHalfWidth: number; // Half-width / |mean|
+  reached: boolean;
+}
+
+// Two-sided level of the Student-t intervals over replications
+export type ConfidenceLevel = 0.9 | 0.95 | 0.99;
+
 export interface SimulationStats {
   totalJobs: number;
+  totalJobsCI: ConfidenceInterval;
   completedJobs: number;
+  completedJobsCI: ConfidenceInterval;
+  eventCount: number; // Events processed (summed over replications)
+  confidenceLevel: ConfidenceLevel; // Of every interval below; a single run has zero-width intervals
   
   // Advanced KPIs
   throughput: number; // Jobs per hour
+  throughputCI: ConfidenceInterval;
   avgWip: number; // Average Work In Process
+  wipCI: ConfidenceInterval;
   serviceLevel: number; // % of inspection waits below a safe threshold (e.g. 5 min)
+  serviceLevelCI: ConfidenceInterval;
 
   avgLeadTime: number;
   leadTimeCI: ConfidenceInterval;
 
-  totalDegradationCost: number;
+  totalDegradationCost: number; // Charged to the jobs that arrived after the warm-up, like avgDegradationCostPerPart
+  totalCostCI: ConfidenceInterval;
   avgDegradationCostPerPart: number;
   costCI: ConfidenceInterval;
 
-  // Wait Time Stats
-  waitTimes: {
-    moulding: number[];
-    inspection: number[]; 
-    packaging: number[];
-  };
+  // Delivery performance against due dates: completed jobs, plus jobs still in the line that are
+  // already overdue at the horizon (counted as late by the time past their due date so far)
+  onTimeRate: number;
+  onTimeCI: ConfidenceInterval;
+  avgTardiness: number; // Minutes late, early jobs count as 0
+  tardinessCI: ConfidenceInterval;
+  maxTardiness: number; // Per replication, averaged over replications
+  maxTardinessCI: ConfidenceInterval;
+  lateness: QuantileSketch; // Completion (or horizon) - due date (negative = early)
+
+  // Quality (only non-zero when a stage has a quality check)
+  firstPassYield: number; // Share of checked parts that passed every check the first time
+  firstPassYieldCI: ConfidenceInterval;
+  scrapCount: number;
+  scrapCountCI: ConfidenceInterval;
+  scrapCost: number;
+  scrapCostCI: ConfidenceInterval;
+  reworkCount: number; // Rework loops started
+  reworkCountCI: ConfidenceInterval;
+  reworkLoad: Record<string, number>; // Share of each stage's processing time spent on rework visits
+  reworkLoadCI: Record<string, ConfidenceInterval>;
+
+  // Wait Time Stats (keyed by stage id); distributions are pooled over replications
+  waitTimes: Record<string, QuantileSketch>;
   
-  waitStats: {
-    moulding: WaitStats;
-    inspection: WaitStats;
-    packaging: WaitStats;
-  };
+  waitStats: Record<string, WaitStats>;
+
+  machineUtilization: Record<string, number>; // Processing only; setups are reported separately
+  machineUtilizationCI: Record<string, ConfidenceInterval>;
+  setupUtilization: Record<string, number>; // Share of scheduled machine time spent on changeovers
+  setupUtilizationCI: Record<string, ConfidenceInterval>;
+  changeovers: Record<string, number>; // Number of setups per stage
+  changeoversCI: Record<string, ConfidenceInterval>;
+  timeBreakdown: Record<string, StageTimeBreakdown>;
+
+  reliability: Record<string, StageReliability>;
+
+  batching: Record<string, BatchStats>;
+
+  operators: Record<string, OperatorStats>; // Keyed by operator group id
 
-  machineUtilization: {
-    moulding: number;
-    inspection: number;
-    packaging: number;
-  };
+  welch: WelchSeries;
+  timeSeries: TimeSeriesSet;
+
+  precision?: PrecisionResult; // Only for precision-target runs
+  replicationValues: Record<TrackedKpi, number[]>; // Per replication, in replication order
+
+  trace?: SimulationTrace;
+}
+
+export type MachineState = 'busy' | 'blocked' | 'starved' | 'forming' | 'unstaffed' | 'down' | 'offShift';
+
+// State of a replication at one moment, as plain data
+export interface SimulationSnapshot {
+  replication: number;
+  time: number;
+  done: boolean;
+  eventCount: number;
+  wip: number;
+  completedJobs: number;
+  scrappedJobs: number;
+  stages: {
+    stageId: string;
+    queue: number[]; // Job ids in the stage's queue (dispatch order is up to the rule)
+    machines: {
+      state: MachineState;
+      jobIds: number[]; // In process, or finished and held while blocked
+      product?: ProductType; // Last product, i.e. what the machine is set up for
+      operatorGroupId?: string;
+    }[];
+  }[];
+  jobs: {
+    id: number;
+    productType: ProductType;
+    arrivalTime: number;
+    dueDate: number;
+    stageId: string;
+    status: 'queued' | 'processing' | 'blocked';
+    fromStageId?: string; // Stage it came from; omitted for a job straight from order intake
+    enteredAt: number; // When it joined the current stage's queue
+  }[]; // Jobs in the line
+  shipped: { id: number; productType: ProductType; stageId: string; time: number }[]; // Finished after `shippedSince`, see SimulationRun.snapshot
+  operators: { groupId: string; busy: number; onDuty: boolean }[];
+}
+
+// One replication driven step by step (SimulationEngine.start)
+export interface SimulationRun {
+  readonly replication: number;
+  readonly time: number; // The clock as far as the run has been advanced
+  readonly done: boolean; // The horizon is reached or nothing is left to happen
+  readonly paused: boolean;
+  step(): boolean; // Processes the next event; false when paused or done
+  runUntil(time: number): void; // Processes every event up to `time`, unless paused
+  pause(): void;
+  resume(): void;
+  snapshot(shippedSince?: number): SimulationSnapshot; // Lists jobs finished after `shippedSince` (default: none)
+  stats(): SimulationStats; // Runs to the end first, even when paused
+}
+
+export interface BenchmarkResult {
+  replications: number;
+  events: number;
+  elapsedMs: number;
+  eventsPerSecond: number;
+}
+
+// A numeric config input a sensitivity sweep can vary
+export type SweepParameter =
+  | { kind: 'capacity'; stageId: string }
+  | { kind: 'arrivalMean' } // Mean time between orders, keeping the distribution's shape
+  | { kind: 'degradationThreshold' }
+  | { kind: 'degradationCostPerMinute' };
+
+export interface SweepAxis {
+  parameter: SweepParameter;
+  from: number;
+  to: number;
+  step: number;
+}
+
+// One factor (line chart) or two (heatmap)
+export interface SensitivitySweep {
+  x: SweepAxis;
+  y?: SweepAxis;
 }
 
 export interface SensitivityPoint {
-  label: string; // e.g., "1", "2", "3" machines
+  label: string; // e.g., "3" or "3 × 5.5"
   xValue: number;
-  cost: number;
-  avgWait: number;
-  variable: 'moulding' | 'inspection' | 'packaging';
+  yValue?: number; // Two-factor sweeps only
+  kpis: Record<TrackedKpi, ConfidenceInterval>;
+}
+
+export interface SensitivityResult {
+  sweep: SensitivitySweep;
+  points: SensitivityPoint[]; // x varies fastest
 }
 
 export interface ScenarioResult {
@@ -91,5 +484,17 @@ export interface ScenarioResult {
   timestamp: Date;
   config: SimulationConfig;
   stats: SimulationStats;
-  isBest?: boolean;
+  isBest?: boolean; // Lowest cost per part, significantly lower than every other entry
+}
+
+// Paired-t needs common random numbers (same seed, so replication i of both saw the same streams)
+export type ComparisonMethod = 'paired' | 'welch';
+
+// One KPI of a scenario against a reference scenario
+export interface KpiComparison {
+  kpi: TrackedKpi;
+  method: ComparisonMethod;
+  difference?: ConfidenceInterval; // Scenario - reference; missing with fewer than 2 replications on a side
+  significant: boolean; // The interval excludes 0
+  better?: 'scenario' | 'reference'; // Only when significant
 }
\ No newline at end of file